@@ -0,0 +1,384 @@
+// ABOUTME: Describes database failures once and builds them as the error each driver throws.
+// ABOUTME: dbErrors.* make DbErrors; the mock turns them into pg, postgres.js, mysql2 or SQLite errors for its driver.
+
+import * as orm from "drizzle-orm";
+import { getTableColumns, getTableName } from "drizzle-orm";
+import type { Column, Table } from "drizzle-orm";
+import type { DriverName } from "./result-shapes.js";
+
+// The fields Postgres sends with an error, as pg and postgres.js expose them
+interface PostgresFields {
+  code: string;
+  message: string;
+  detail?: string;
+  hint?: string;
+  schema?: string;
+  table?: string;
+  column?: string;
+  constraint?: string;
+  routine?: string;
+}
+
+interface MySqlFields {
+  code: string;
+  errno: number;
+  sqlState: string;
+  message: string;
+}
+
+interface SqliteFields {
+  // The extended result code, e.g. SQLITE_CONSTRAINT_UNIQUE; `code` on libsql is its base code
+  code: string;
+  rawCode: number;
+  message: string;
+}
+
+// A failure to reach the server, which network drivers report as Node's socket error
+interface ConnectionFields {
+  code: string;
+  errno: number;
+  syscall: string;
+  address: string;
+}
+
+/** A failure as each dialect reports it. */
+export interface DbErrorShapes {
+  postgres: PostgresFields;
+  mysql: MySqlFields;
+  sqlite: SqliteFields;
+  // Replaces the postgres and mysql fields for drivers that talk to a server
+  connection?: ConnectionFields;
+}
+
+/**
+ * A database failure described for every dialect. Pass it to .throw() or as a transaction failure;
+ * the mock throws the error the db's driver would, such as a pg DatabaseError with its `code`.
+ */
+export class DbError extends Error {
+  constructor(readonly shapes: DbErrorShapes) {
+    super(shapes.postgres.message);
+    this.name = "DbError";
+  }
+}
+
+// Mirrors pg-protocol's DatabaseError, which names itself "error" and sets every field it parses
+function nodePostgresError(fields: PostgresFields): Error {
+  const { message, ...rest } = fields;
+  const error = new Error(message);
+  error.name = "error";
+  return Object.assign(error, {
+    length: 0,
+    severity: "ERROR",
+    code: rest.code,
+    detail: rest.detail,
+    hint: rest.hint,
+    position: undefined,
+    internalPosition: undefined,
+    internalQuery: undefined,
+    where: undefined,
+    schema: rest.schema,
+    table: rest.table,
+    column: rest.column,
+    dataType: undefined,
+    constraint: rest.constraint,
+    file: undefined,
+    line: undefined,
+    routine: rest.routine,
+  });
+}
+
+class PostgresError extends Error {
+  constructor(fields: Record<string, string | undefined>) {
+    super(fields.message);
+    this.name = "PostgresError";
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) (this as Record<string, unknown>)[key] = value;
+    }
+  }
+}
+
+// postgres.js keeps the fields it received under Postgres' own names
+function postgresJsError(fields: PostgresFields): Error {
+  return new PostgresError({
+    severity_local: "ERROR",
+    severity: "ERROR",
+    code: fields.code,
+    message: fields.message,
+    detail: fields.detail,
+    hint: fields.hint,
+    schema_name: fields.schema,
+    table_name: fields.table,
+    column_name: fields.column,
+    constraint_name: fields.constraint,
+    routine: fields.routine,
+  });
+}
+
+function mysql2Error(fields: MySqlFields): Error {
+  return Object.assign(new Error(fields.message), {
+    code: fields.code,
+    errno: fields.errno,
+    sqlState: fields.sqlState,
+    sqlMessage: fields.message,
+  });
+}
+
+class SqliteError extends Error {
+  constructor(message: string, readonly code: string, readonly rawCode?: number) {
+    super(message);
+    this.name = "SqliteError";
+  }
+}
+
+class LibsqlError extends Error {
+  constructor(message: string, readonly code: string, readonly extendedCode: string, readonly rawCode: number, cause: Error) {
+    super(`${code}: ${message}`, { cause });
+    this.name = "LibsqlError";
+  }
+}
+
+// libsql reports the base code (SQLITE_CONSTRAINT) and keeps the extended one, wrapping the engine's error
+function libsqlError(fields: SqliteFields): Error {
+  const baseCode = fields.code.replace(/^(SQLITE_[A-Z]+)_.*$/, "$1");
+  const cause = new SqliteError(fields.message, fields.code, fields.rawCode);
+  return new LibsqlError(fields.message, baseCode, fields.code, fields.rawCode, cause);
+}
+
+function socketError(fields: ConnectionFields, port: number): Error {
+  return Object.assign(new Error(`${fields.syscall} ${fields.code} ${fields.address}:${port}`), { ...fields, port });
+}
+
+/** The error the driver would throw for a DbError; other errors are returned as they are. */
+export function toDriverError(error: unknown, driver: DriverName): unknown {
+  if (!(error instanceof DbError)) return error;
+  const { postgres, mysql, sqlite, connection } = error.shapes;
+  switch (driver) {
+    case "node-postgres":
+      return connection ? socketError(connection, 5432) : nodePostgresError(postgres);
+    case "postgres-js":
+      return connection ? socketError(connection, 5432) : postgresJsError(postgres);
+    case "mysql2":
+      // mysql2 marks errors that end the connection as fatal
+      return connection ? Object.assign(socketError(connection, 3306), { fatal: true }) : mysql2Error(mysql);
+    case "better-sqlite3":
+      return new SqliteError(sqlite.message, sqlite.code);
+    case "libsql":
+      return libsqlError(sqlite);
+  }
+}
+
+// drizzle-orm 0.44 and later wrap errors from a query's driver in a DrizzleQueryError; earlier
+// versions let them through as they are
+const DrizzleQueryError = (orm as Record<string, unknown>).DrizzleQueryError as
+  | (new (query: string, params: unknown[], cause?: Error) => Error)
+  | undefined;
+
+/** toDriverError() for a failed query, wrapped the way the installed drizzle version wraps driver errors. */
+export function toQueryError(error: unknown, driver: DriverName, sql: string, params: unknown[]): unknown {
+  if (!(error instanceof DbError)) return error;
+  const driverError = toDriverError(error, driver) as Error;
+  return DrizzleQueryError ? new DrizzleQueryError(sql, params, driverError) : driverError;
+}
+
+const inlineForeignKeys = ["Pg", "MySql", "SQLite"].map((dialect) => Symbol.for(`drizzle:${dialect}InlineForeignKeys`));
+
+/** Names a column of `table` by its key, e.g. `{ table: users, column: "email" }`. */
+export interface ColumnErrorOptions<TTable extends Table = Table> {
+  table: TTable;
+  column: keyof TTable["_"]["columns"] & string;
+  // The offending value, shown in the message where the database shows it
+  value?: unknown;
+  // Overrides the constraint name drizzle would give the column's constraint
+  constraint?: string;
+}
+
+export interface CheckErrorOptions {
+  table: Table;
+  constraint: string;
+}
+
+function resolveColumn(method: string, { table, column }: { table: Table; column: string }): Column {
+  const resolved = getTableColumns(table)[column];
+  if (!resolved) {
+    throw new Error(`dbErrors.${method}(): table "${getTableName(table)}" has no column "${column}"`);
+  }
+  return resolved;
+}
+
+function formatKeyValue(value: unknown): string {
+  return value === undefined ? "" : String(value);
+}
+
+// The inline .references() of a column, named the way drizzle names foreign keys
+function foreignKeyOf(table: Table, column: Column): { name: string; foreignTable: string; foreignColumn: string } | undefined {
+  for (const symbol of inlineForeignKeys) {
+    for (const foreignKey of ((table as any)[symbol] ?? []) as any[]) {
+      const { columns, foreignColumns } = foreignKey.reference();
+      if (columns.includes(column)) {
+        return {
+          name: foreignKey.getName(),
+          foreignTable: getTableName(foreignColumns[0].table),
+          foreignColumn: foreignColumns[0].name,
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+const sqliteBusy: SqliteFields = { code: "SQLITE_BUSY", rawCode: 5, message: "database is locked" };
+
+const mysqlDeadlock: MySqlFields = {
+  code: "ER_LOCK_DEADLOCK",
+  errno: 1213,
+  sqlState: "40001",
+  message: "Deadlock found when trying to get lock; try restarting transaction",
+};
+
+/** Ready-made failures, shaped for whichever driver the mocked db uses. */
+export const dbErrors = {
+  // Postgres 40001; MySQL reports serialization conflicts as deadlocks, SQLite as a locked database
+  serializationFailure(): DbError {
+    return new DbError({
+      postgres: {
+        code: "40001",
+        message: "could not serialize access due to read/write dependencies among transactions",
+        detail: "Reason code: Canceled on identification as a pivot, during commit attempt.",
+        hint: "The transaction might succeed if retried.",
+        routine: "PreCommit_CheckForSerializationFailure",
+      },
+      mysql: mysqlDeadlock,
+      sqlite: sqliteBusy,
+    });
+  },
+
+  deadlock(): DbError {
+    return new DbError({
+      postgres: {
+        code: "40P01",
+        message: "deadlock detected",
+        detail: "Process 4242 waits for ShareLock on transaction 1001; blocked by process 4243.",
+        hint: "See server log for query details.",
+        routine: "DeadLockReport",
+      },
+      mysql: mysqlDeadlock,
+      sqlite: sqliteBusy,
+    });
+  },
+
+  // A primary key column reports its primary key constraint; other columns their .unique() constraint
+  uniqueViolation<TTable extends Table>(options: ColumnErrorOptions<TTable>): DbError {
+    const column = resolveColumn("uniqueViolation", options);
+    const table = getTableName(options.table);
+    const constraint = options.constraint ?? (column.primary ? `${table}_pkey` : `${table}_${column.name}_unique`);
+    const mysqlKey = options.constraint ?? (column.primary ? "PRIMARY" : `${table}_${column.name}_unique`);
+    return new DbError({
+      postgres: {
+        code: "23505",
+        message: `duplicate key value violates unique constraint "${constraint}"`,
+        detail: options.value !== undefined ? `Key (${column.name})=(${formatKeyValue(options.value)}) already exists.` : undefined,
+        schema: "public",
+        table,
+        constraint,
+        routine: "_bt_check_unique",
+      },
+      mysql: {
+        code: "ER_DUP_ENTRY",
+        errno: 1062,
+        sqlState: "23000",
+        message: `Duplicate entry '${formatKeyValue(options.value)}' for key '${table}.${mysqlKey}'`,
+      },
+      sqlite: column.primary
+        ? { code: "SQLITE_CONSTRAINT_PRIMARYKEY", rawCode: 1555, message: `UNIQUE constraint failed: ${table}.${column.name}` }
+        : { code: "SQLITE_CONSTRAINT_UNIQUE", rawCode: 2067, message: `UNIQUE constraint failed: ${table}.${column.name}` },
+    });
+  },
+
+  // Describes a write to the referencing column, using the column's .references() when it has one
+  foreignKeyViolation<TTable extends Table>(options: ColumnErrorOptions<TTable>): DbError {
+    const column = resolveColumn("foreignKeyViolation", options);
+    const table = getTableName(options.table);
+    const foreignKey = foreignKeyOf(options.table, column);
+    const constraint = options.constraint ?? foreignKey?.name ?? `${table}_${column.name}_fk`;
+    const references = foreignKey ? ` REFERENCES \`${foreignKey.foreignTable}\` (\`${foreignKey.foreignColumn}\`)` : "";
+    return new DbError({
+      postgres: {
+        code: "23503",
+        message: `insert or update on table "${table}" violates foreign key constraint "${constraint}"`,
+        detail: options.value !== undefined && foreignKey
+          ? `Key (${column.name})=(${formatKeyValue(options.value)}) is not present in table "${foreignKey.foreignTable}".`
+          : undefined,
+        schema: "public",
+        table,
+        constraint,
+        routine: "ri_ReportViolation",
+      },
+      mysql: {
+        code: "ER_NO_REFERENCED_ROW_2",
+        errno: 1452,
+        sqlState: "23000",
+        message:
+          `Cannot add or update a child row: a foreign key constraint fails ` +
+          `(\`${table}\`, CONSTRAINT \`${constraint}\` FOREIGN KEY (\`${column.name}\`)${references})`,
+      },
+      sqlite: { code: "SQLITE_CONSTRAINT_FOREIGNKEY", rawCode: 787, message: "FOREIGN KEY constraint failed" },
+    });
+  },
+
+  notNullViolation<TTable extends Table>(options: ColumnErrorOptions<TTable>): DbError {
+    const column = resolveColumn("notNullViolation", options);
+    const table = getTableName(options.table);
+    return new DbError({
+      postgres: {
+        code: "23502",
+        message: `null value in column "${column.name}" of relation "${table}" violates not-null constraint`,
+        schema: "public",
+        table,
+        column: column.name,
+        routine: "ExecConstraints",
+      },
+      mysql: { code: "ER_BAD_NULL_ERROR", errno: 1048, sqlState: "23000", message: `Column '${column.name}' cannot be null` },
+      sqlite: { code: "SQLITE_CONSTRAINT_NOTNULL", rawCode: 1299, message: `NOT NULL constraint failed: ${table}.${column.name}` },
+    });
+  },
+
+  checkViolation({ table, constraint }: CheckErrorOptions): DbError {
+    const tableName = getTableName(table);
+    return new DbError({
+      postgres: {
+        code: "23514",
+        message: `new row for relation "${tableName}" violates check constraint "${constraint}"`,
+        schema: "public",
+        table: tableName,
+        constraint,
+        routine: "ExecConstraints",
+      },
+      mysql: { code: "ER_CHECK_CONSTRAINT_VIOLATED", errno: 3819, sqlState: "HY000", message: `Check constraint '${constraint}' is violated.` },
+      sqlite: { code: "SQLITE_CONSTRAINT_CHECK", rawCode: 275, message: `CHECK constraint failed: ${constraint}` },
+    });
+  },
+
+  // Network drivers fail to open a socket; SQLite fails to open its database file
+  connectionRefused(): DbError {
+    return new DbError({
+      postgres: { code: "08006", message: "connection failure" },
+      mysql: { code: "ECONNREFUSED", errno: -111, sqlState: "", message: "connect ECONNREFUSED" },
+      sqlite: { code: "SQLITE_CANTOPEN", rawCode: 14, message: "unable to open database file" },
+      connection: { code: "ECONNREFUSED", errno: -111, syscall: "connect", address: "127.0.0.1" },
+    });
+  },
+
+  // The server's statement timeout; SQLite gives up on a locked database once its busy timeout passes
+  queryTimeout(): DbError {
+    return new DbError({
+      postgres: { code: "57014", message: "canceling statement due to statement timeout", routine: "ProcessInterrupts" },
+      mysql: {
+        code: "ER_QUERY_TIMEOUT",
+        errno: 3024,
+        sqlState: "HY000",
+        message: "Query execution was interrupted, maximum statement execution time exceeded",
+      },
+      sqlite: sqliteBusy,
+    });
+  },
+};
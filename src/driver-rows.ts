@@ -0,0 +1,109 @@
+// ABOUTME: Decodes driver-level mock rows (snake_case keys, strings, JSON text) with drizzle's own
+// ABOUTME: result mapping, so custom column types, aliases and join nullability behave as in production.
+
+import * as drizzle from "drizzle-orm";
+import { Column, getTableName, is, SQL } from "drizzle-orm";
+import { isPlainObject } from "./drizzle-internals.js";
+import type { SelectedField } from "./types.js";
+
+// Exported at runtime but marked @internal, so it's missing from drizzle's type declarations
+const mapResultRow = (drizzle as any).mapResultRow as (
+  columns: SelectedField[],
+  row: unknown[],
+  joinsNotNullableMap: Record<string, boolean> | undefined
+) => Record<string, unknown>;
+
+/** An item of the selection drizzle's relational query builders return alongside their SQL. */
+export interface RelationalSelectionItem {
+  tsKey: string;
+  field: unknown;
+  isJson: boolean;
+  selection: RelationalSelectionItem[];
+}
+
+type RelationalResultMapper = (rows: unknown[][], mapColumnValue?: (value: unknown) => unknown) => unknown;
+
+export interface RowDecoderOptions {
+  fields?: SelectedField[];
+  customResultMapper?: RelationalResultMapper;
+  relationalSelection?: RelationalSelectionItem[];
+  // Read when decoding: drizzle's select builders assign it after preparing the query
+  joinsNotNullableMap: () => Record<string, boolean> | undefined;
+  // SQLite's .get() decodes one row rather than a list
+  single?: boolean;
+}
+
+/**
+ * Returns a function that turns a mock response written in driver terms into what drizzle
+ * would hand back for this query, or undefined when the query has no result mapping (writes
+ * without .returning(), raw SQL).
+ */
+export function createRowDecoder(options: RowDecoderOptions): ((response: unknown) => unknown) | undefined {
+  const { fields, customResultMapper, relationalSelection, single } = options;
+
+  if (customResultMapper && relationalSelection) {
+    return (response) => {
+      const rows = toRowList(response);
+      return customResultMapper(rows.map((row) => relationalRowToArray(row, relationalSelection)));
+    };
+  }
+
+  if (fields) {
+    return (response) => {
+      const rows = toRowList(response);
+      const mapped = rows.map((row) =>
+        mapResultRow(fields, selectRowToArray(row, fields), options.joinsNotNullableMap())
+      );
+      return single ? mapped[0] : mapped;
+    };
+  }
+
+  return undefined;
+}
+
+// findFirst and .get() mocks may respond with a single row instead of a list
+function toRowList(response: unknown): unknown[] {
+  if (Array.isArray(response)) return response;
+  return response === undefined || response === null ? [] : [response];
+}
+
+function pick(row: Record<string, unknown>, keys: string[]): unknown {
+  for (const key of keys) {
+    if (key in row) return row[key];
+  }
+  throw new Error(
+    `rawDriverRows: mock row is missing ${keys.map((key) => `"${key}"`).join(" / ")}, which the query selects.\n  Row: ${JSON.stringify(row)}`
+  );
+}
+
+// Drivers key rows by column name; joins that select the same column name twice can be
+// told apart with "table.column" keys
+function selectRowToArray(row: unknown, fields: SelectedField[]): unknown[] {
+  if (!isPlainObject(row)) return row as unknown[];
+  return fields.map(({ path, field }) => {
+    const key = path[path.length - 1];
+    if (is(field, Column)) {
+      return pick(row, [`${getTableName(field.table)}.${field.name}`, field.name]);
+    }
+    if (is(field, SQL.Aliased)) {
+      return pick(row, [field.fieldAlias]);
+    }
+    return pick(row, [key]);
+  });
+}
+
+// Relations come back from the driver as JSON: a nested row for one(), a list for many()
+function relationalRowToArray(row: unknown, selection: RelationalSelectionItem[]): unknown[] {
+  if (!isPlainObject(row)) return row as unknown[];
+  return selection.map((item) => {
+    if (item.isJson) {
+      const raw = pick(row, [item.tsKey]);
+      const value = typeof raw === "string" ? JSON.parse(raw) : raw;
+      if (isPlainObject(value)) return relationalRowToArray(value, item.selection);
+      if (Array.isArray(value)) return value.map((sub) => relationalRowToArray(sub, item.selection));
+      return value;
+    }
+    const keys = is(item.field, Column) ? [item.field.name, item.tsKey] : [item.tsKey];
+    return pick(row, keys);
+  });
+}
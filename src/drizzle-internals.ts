@@ -0,0 +1,61 @@
+// ABOUTME: Shared access to drizzle internals: entity symbols, table keys and the keys rows use for columns.
+// ABOUTME: Also holds the query operation groups and the plain-object check the matching and row modules share.
+
+import { getTableColumns } from "drizzle-orm";
+import type { Column, Table } from "drizzle-orm";
+
+export const EntityKind = Symbol.for("drizzle:entityKind");
+export const TableName = Symbol.for("drizzle:Name");
+export const TableSchema = Symbol.for("drizzle:Schema");
+export const TableOriginalName = Symbol.for("drizzle:OriginalName");
+
+export const readOperations = new Set(["select", "findFirst", "findMany"]);
+export const writeOperations = new Set(["insert", "update", "delete"]);
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+export function tableKey(table: Table): string {
+  const schema: string | undefined = (table as any)[TableSchema];
+  const name: string = (table as any)[TableName];
+  return schema ? `${schema}.${name}` : name;
+}
+
+const keysByTable = new WeakMap<Table, Map<string, string>>();
+
+// A table's keys for its columns by column name, e.g. created_at → createdAt
+export function columnKeys(table: Table): Map<string, string> {
+  let keys = keysByTable.get(table);
+  if (!keys) {
+    keys = new Map();
+    for (const [key, column] of Object.entries(getTableColumns(table))) {
+      keys.set((column as Column).name, key);
+    }
+    keysByTable.set(table, keys);
+  }
+  return keys;
+}
+
+/**
+ * Resolves columns to the keys rows of `table` use for them, e.g. "createdAt" for created_at.
+ * Columns of any other table throw, as the database rejects a column the query doesn't read.
+ */
+export function columnResolver(table: Table): (column: Column) => string {
+  const keys = columnKeys(table);
+  const name = tableKey(table);
+  return (column) => {
+    if (tableKey(column.table) !== name) {
+      throw new Error(
+        `Cannot resolve column "${column.name}" of table "${tableKey(column.table)}": the query reads "${name}", not that table`
+      );
+    }
+    const key = keys.get(column.name);
+    if (key === undefined) {
+      throw new Error(`Cannot resolve column "${column.name}" on table "${tableKey(table)}"`);
+    }
+    return key;
+  };
+}
@@ -0,0 +1,170 @@
+// ABOUTME: Builds deterministic, schema-valid fixture rows from a drizzle table's column metadata.
+// ABOUTME: Serial ids count up; other values come from a seeded PRNG so every run produces the same rows.
+
+import { Column, getTableColumns, getTableName } from "drizzle-orm";
+import type { Table } from "drizzle-orm";
+import { isAutoIncrement } from "./table-store.js";
+
+type Row = Record<string, unknown>;
+
+export type FactoryOverrides<TTable extends Table> =
+  | Partial<TTable["$inferSelect"]>
+  | ((index: number) => Partial<TTable["$inferSelect"]>);
+
+export interface FactoryOptions {
+  /** Seeds the value generator; the same seed always produces the same rows. */
+  seed?: number;
+}
+
+// Shared by factories that should keep counting, like every mock.factory(table) of one controller
+export interface FactoryState {
+  built: number;
+  random: () => number;
+}
+
+const BASE_DATE = Date.UTC(2024, 0, 1);
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_SEED = 1;
+
+// mulberry32: small, fast, and good enough to vary fixture values
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Mixes the table name into the seed so two tables don't produce the same values
+function seedFor(table: Table, seed: number): number {
+  let hash = seed;
+  for (const char of getTableName(table)) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function createFactoryState(table: Table, options: FactoryOptions = {}): FactoryState {
+  return { built: 0, random: createRandom(seedFor(table, options.seed ?? DEFAULT_SEED)) };
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+function formatDate(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+function formatTime(date: Date): string {
+  return `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+function uuid(random: () => number): string {
+  const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16));
+  hex[12] = "4";
+  hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  const text = hex.join("");
+  return `${text.slice(0, 8)}-${text.slice(8, 12)}-${text.slice(12, 16)}-${text.slice(16, 20)}-${text.slice(20)}`;
+}
+
+function generateValue(table: Table, key: string, column: Column, sequence: number, random: () => number): unknown {
+  const columnType = column.columnType;
+  const enumValues = column.enumValues;
+  // Spread timestamps a day apart, at a varying time of day
+  const date = new Date(BASE_DATE + (sequence - 1) * DAY + Math.floor(random() * DAY / 1000) * 1000);
+
+  if (isAutoIncrement(column) || (column.primary && column.dataType === "number")) {
+    return column.dataType === "bigint" ? BigInt(sequence) : sequence;
+  }
+  if (enumValues && enumValues.length > 0) return enumValues[Math.floor(random() * enumValues.length)];
+  if (/UUID/.test(columnType)) return uuid(random);
+
+  switch (column.dataType) {
+    case "number":
+      return 1 + Math.floor(random() * 1000);
+    case "bigint":
+      return BigInt(1 + Math.floor(random() * 1000));
+    case "boolean":
+      return random() < 0.5;
+    case "date":
+      return date;
+    case "json":
+      return {};
+    case "array":
+      return [];
+    case "buffer":
+      return new Uint8Array();
+    case "string": {
+      if (/Numeric|Decimal/.test(columnType)) return (random() * 1000).toFixed(2);
+      if (/Timestamp|DateTime/.test(columnType)) return `${formatDate(date)} ${formatTime(date)}`;
+      if (/Date/.test(columnType)) return formatDate(date);
+      if (/Time/.test(columnType)) return formatTime(date);
+      const text = /email/i.test(key) ? `${getTableName(table)}${sequence}@example.com` : `${key} ${sequence}`;
+      const length = (column as { length?: number }).length;
+      return length ? text.slice(0, length) : text;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Builds rows for a table. Each row gets the next sequence number, which serial and integer
+ * primary keys use as their value; the other columns are generated from the factory's seed.
+ */
+export class Factory<TTable extends Table> {
+  constructor(
+    private readonly table: TTable,
+    private readonly overrides?: FactoryOverrides<TTable>,
+    private readonly state: FactoryState = createFactoryState(table)
+  ) {}
+
+  /** Builds `count` rows. Overrides given here win over the factory's own. */
+  build(count: number, overrides?: FactoryOverrides<TTable>): TTable["$inferSelect"][] {
+    return Array.from({ length: count }, () => this.one(overrides));
+  }
+
+  /** Builds a single row, e.g. for an onFindFirst() mock. */
+  one(overrides?: FactoryOverrides<TTable>): TTable["$inferSelect"] {
+    const index = this.state.built++;
+    const row: Row = {};
+    for (const [key, column] of Object.entries(getTableColumns(this.table))) {
+      row[key] = generateValue(this.table, key, column as Column, index + 1, this.state.random);
+    }
+    Object.assign(row, resolveOverrides(this.overrides, index), resolveOverrides(overrides, index));
+
+    for (const [key, column] of Object.entries(getTableColumns(this.table))) {
+      if (row[key] === undefined && !(column as Column).notNull) {
+        row[key] = null;
+      } else if (row[key] === undefined) {
+        throw new Error(
+          `Cannot generate a value for ${(column as Column).columnType} column "${(column as Column).name}" ` +
+          `on table "${getTableName(this.table)}". Pass it in the factory's overrides.`
+        );
+      }
+    }
+    return row as TTable["$inferSelect"];
+  }
+}
+
+function resolveOverrides<TTable extends Table>(
+  overrides: FactoryOverrides<TTable> | undefined,
+  index: number
+): Row | undefined {
+  return typeof overrides === "function" ? overrides(index) : overrides;
+}
+
+/**
+ * Defines a row factory for a table. `overrides` fixes columns for every row, either as values
+ * or as a function of the row's index (0 for the first row built).
+ */
+export function defineFactory<TTable extends Table>(
+  table: TTable,
+  overrides?: FactoryOverrides<TTable>,
+  options?: FactoryOptions
+): Factory<TTable> {
+  return new Factory(table, overrides, createFactoryState(table, options));
+}
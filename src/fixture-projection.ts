@@ -0,0 +1,72 @@
+// ABOUTME: Projects full-row fixtures onto a select's field selection for the projectSelections option.
+// ABOUTME: Handles aliased keys, nested objects, and joins whose fixtures are keyed by table name.
+
+import { Column, getTableName, is, SQL } from "drizzle-orm";
+import { columnKeys, isPlainObject } from "./drizzle-internals.js";
+import type { SelectedField } from "./types.js";
+
+type Row = Record<string, unknown>;
+
+interface Lookup {
+  found: boolean;
+  value?: unknown;
+  // Set when the value comes from a left-joined table the fixture marks as unmatched (null)
+  unmatchedJoin?: boolean;
+}
+
+function valueAtPath(row: Row, path: string[]): Lookup {
+  let node: unknown = row;
+  for (const segment of path) {
+    if (!isPlainObject(node) || !(segment in node)) return { found: false };
+    node = node[segment];
+  }
+  return { found: true, value: node };
+}
+
+// Join fixtures nest each table's row under its name, like drizzle's own select().from().join(),
+// with null for a left-joined table that had no match
+function columnValue(row: Row, column: Column): Lookup {
+  const key = columnKeys(column.table).get(column.name);
+  if (key === undefined) return { found: false };
+  const nested = row[getTableName(column.table)];
+  if (nested === null) return { found: true, value: null, unmatchedJoin: true };
+  if (isPlainObject(nested) && key in nested) return { found: true, value: nested[key] };
+  if (key in row) return { found: true, value: row[key] };
+  return { found: false };
+}
+
+/**
+ * Picks the selected fields out of a fixture row. Columns are looked up by their key on the
+ * table; when the row doesn't have it, the value already at the field's path is kept, so
+ * fixtures written in the selection's shape still work. SQL expressions can only come from
+ * the path.
+ */
+export function projectFixtureRow(row: Row, selection: SelectedField[]): Row {
+  const result: Row = {};
+  // Nested objects stay null when every field in them comes from an unmatched left join
+  const unmatchedGroups = new Map<string, boolean>();
+  for (const { path, field } of selection) {
+    let found: Lookup = is(field, Column) ? columnValue(row, field) : { found: false };
+    if (!found.found) found = valueAtPath(row, path);
+    if (!found.found && is(field, SQL.Aliased)) found = valueAtPath(row, [field.fieldAlias]);
+    if (!found.found) continue;
+
+    if (path.length > 1) {
+      unmatchedGroups.set(path[0], (unmatchedGroups.get(path[0]) ?? true) && found.unmatchedJoin === true);
+    }
+    let target = result;
+    for (const segment of path.slice(0, -1)) {
+      target = (target[segment] ??= {}) as Row;
+    }
+    target[path[path.length - 1]] = found.value;
+  }
+  for (const [group, unmatched] of unmatchedGroups) {
+    if (unmatched) result[group] = null;
+  }
+  return result;
+}
+
+export function projectFixtureRows(response: unknown, selection: SelectedField[]): unknown {
+  if (!Array.isArray(response) || !response.every(isPlainObject)) return response;
+  return response.map((row) => projectFixtureRow(row, selection));
+}
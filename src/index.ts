@@ -1,4 +1,13 @@
 export { mockDatabase } from "./mock-database.js";
-export { MockController, MockBuilder, MockInsertBuilder, MockUpdateBuilder } from "./mock-controller.js";
+export { MockController, MockBuilder, MockInsertBuilder, MockRelationalBuilder, MockTransactionBuilder, MockUpdateBuilder } from "./mock-controller.js";
+export type { MockRows, QueryResponse, RelationalRow, ScopedMockController } from "./mock-controller.js";
 export { anything, partial } from "./anything.js";
-export type { RecordedCall, MockEntry, MockHandle, MockMatcher, MockResponse, CapturedConfig } from "./types.js";
+export { dbErrors, DbError } from "./db-errors.js";
+export type { CheckErrorOptions, ColumnErrorOptions, DbErrorShapes } from "./db-errors.js";
+export { defineFactory, Factory } from "./factory.js";
+export type { FactoryOptions, FactoryOverrides } from "./factory.js";
+export { drizzleMatchers } from "./matchers.js";
+export { setDefaultUnmatchedBehavior } from "./unmatched.js";
+export type { UnmatchedBehavior } from "./unmatched.js";
+export type { CallCountOptions, DrizzleMockMatchers, ExecutionStep, QueryOperation } from "./matchers.js";
+export type { RecordedCall, CallOutcome, MockEntry, MockHandle, MockMatcher, MockResponse, CapturedConfig, MockDatabaseOptions, JoinConstraint, JoinFixtures, RelationalShape, TransactionConfig, TransactionEvent, TransactionEventType, TransactionFailureStage } from "./types.js";
@@ -0,0 +1,147 @@
+// ABOUTME: Answers selects with joins from per-table fixtures given to .rows().
+// ABOUTME: Evaluates each join's `on` condition in memory and assembles drizzle's nested join result.
+
+import { getTableName, is, SQL, Table } from "drizzle-orm";
+import { columnKeys, columnResolver, TableOriginalName, tableKey, TableSchema } from "./drizzle-internals.js";
+import { projectFixtureRow } from "./fixture-projection.js";
+import { compileCondition, compileOrdering, resolveCount, type EvaluationContext } from "./sql-evaluator.js";
+import type { DriverName } from "./result-shapes.js";
+import type { CapturedConfig, JoinConstraint, JoinFixtures } from "./types.js";
+
+type Row = Record<string, unknown>;
+
+interface JoinConfig {
+  table: unknown;
+  on?: unknown;
+  joinType: "left" | "right" | "inner" | "full";
+}
+
+// One result row while joining: flat for evaluating conditions ("users.id" keys), nested by
+// table name (null for an unmatched outer join) for projecting the selection
+interface Combination {
+  flat: Row;
+  nested: Record<string, Row | null>;
+}
+
+// The required joins this query lacks; a table joined under an alias still counts
+export function missingJoins(expected: JoinConstraint[], config: CapturedConfig): JoinConstraint[] {
+  const joins = (config.joins ?? []) as JoinConfig[];
+  return expected.filter(
+    (constraint) =>
+      !joins.some(
+        (join) =>
+          (join.table as any)?.[TableOriginalName] === constraint.tableName &&
+          (join.table as any)?.[TableSchema] === constraint.tableSchema &&
+          (constraint.joinType === undefined || join.joinType === constraint.joinType)
+      )
+  );
+}
+
+function fixturesFor(fixtures: JoinFixtures, name: string): Row[] {
+  const rows = fixtures[name];
+  if (!rows) {
+    throw new Error(
+      `.rows() has no fixtures for "${name}". Pass rows for every table in the query, e.g. { ${name}: [...] }. ` +
+      `Got: ${Object.keys(fixtures).map((key) => `"${key}"`).join(", ") || "(none)"}`
+    );
+  }
+  return rows;
+}
+
+function flatten(table: Table, row: Row | null): Row {
+  const name = getTableName(table);
+  const flat: Row = {};
+  for (const key of columnKeys(table).values()) {
+    flat[`${name}.${key}`] = row ? row[key] ?? null : null;
+  }
+  return flat;
+}
+
+// Columns resolve to "table.key" keys of the flat rows; columns of tables the query doesn't join throw
+function evaluationContext(config: CapturedConfig, driver: DriverName | undefined): EvaluationContext {
+  const tables = [config.table, ...((config.joins ?? []) as JoinConfig[]).map((join) => join.table as Table)];
+  const resolvers = new Map(tables.map((table) => [tableKey(table), columnResolver(table)]));
+  return {
+    resolveColumn: (column) => {
+      const resolve = resolvers.get(tableKey(column.table));
+      if (!resolve) {
+        throw new Error(
+          `Cannot resolve column "${column.name}" of table "${tableKey(column.table)}": the query doesn't select from or join that table`
+        );
+      }
+      return `${getTableName(column.table)}.${resolve(column)}`;
+    },
+    placeholderValues: config.placeholderValues,
+    driver,
+  };
+}
+
+/**
+ * Joins per-table fixtures the way the database would for this query's joins, then applies
+ * where, orderBy, offset and limit and projects the selection. Outer joins without a match
+ * leave that table null.
+ */
+export function readJoinedRows(fixtures: JoinFixtures, config: CapturedConfig, driver?: DriverName): Row[] {
+  if (config.operation !== "select") {
+    throw new Error(`Per-table fixtures can only answer selects, not ${config.operation} queries`);
+  }
+  const context = evaluationContext(config, driver);
+  const baseName = getTableName(config.table);
+  let combinations: Combination[] = fixturesFor(fixtures, baseName).map((row) => ({
+    flat: flatten(config.table, row),
+    nested: { [baseName]: { ...row } },
+  }));
+  const joinedTables: Table[] = [config.table];
+
+  for (const join of (config.joins ?? []) as JoinConfig[]) {
+    if (!is(join.table, Table)) {
+      throw new Error("Per-table fixtures can only answer joins on tables, not subqueries or views");
+    }
+    const table = join.table;
+    const name = getTableName(table);
+    const rows = fixturesFor(fixtures, name);
+    const matches = compileCondition(join.on as SQL | undefined, context);
+    const matchedRows = new Set<Row>();
+    const next: Combination[] = [];
+
+    for (const combination of combinations) {
+      let matched = false;
+      for (const row of rows) {
+        const flat = { ...combination.flat, ...flatten(table, row) };
+        if (!matches(flat)) continue;
+        matched = true;
+        matchedRows.add(row);
+        next.push({ flat, nested: { ...combination.nested, [name]: { ...row } } });
+      }
+      if (!matched && (join.joinType === "left" || join.joinType === "full")) {
+        next.push({ flat: { ...combination.flat, ...flatten(table, null) }, nested: { ...combination.nested, [name]: null } });
+      }
+    }
+
+    if (join.joinType === "right" || join.joinType === "full") {
+      for (const row of rows) {
+        if (matchedRows.has(row)) continue;
+        const flat: Row = {};
+        const nested: Record<string, Row | null> = {};
+        for (const previous of joinedTables) {
+          Object.assign(flat, flatten(previous, null));
+          nested[getTableName(previous)] = null;
+        }
+        next.push({ flat: { ...flat, ...flatten(table, row) }, nested: { ...nested, [name]: { ...row } } });
+      }
+    }
+
+    joinedTables.push(table);
+    combinations = next;
+  }
+
+  const predicate = compileCondition(config.where, context);
+  const ordering = compileOrdering(config.orderBy, context);
+  let result = combinations.filter((combination) => predicate(combination.flat));
+  if (ordering) result = [...result].sort((a, b) => ordering(a.flat, b.flat));
+  const offset = resolveCount(config.offset, context) ?? 0;
+  const limit = resolveCount(config.limit, context);
+  result = result.slice(offset, limit !== undefined ? offset + limit : undefined);
+
+  return result.map((combination) => projectFixtureRow(combination.nested, config.selection ?? []));
+}
@@ -0,0 +1,260 @@
+// ABOUTME: Explains why registered mocks didn't match a query, for the "No mock registered" error.
+// ABOUTME: Ranks mocks by how close they came and lists the checks each one failed.
+
+import { missingJoins } from "./join-rows.js";
+import { formatRelationalShape, relationalMismatches } from "./relational-matching.js";
+import { normalizeSql, type SqlNormalizer } from "./sql-normalization.js";
+import { formatValue, matchesValue, matchesValueSubset } from "./value-matching.js";
+import type { CapturedConfig, JoinConstraint, MockEntry, MockMatcher, SqlFragment } from "./types.js";
+
+export interface QueryDetails {
+  sql: string;
+  canonicalSql: string;
+  fragmentForm: string;
+  params: unknown[];
+  config?: CapturedConfig;
+  inTransaction?: boolean;
+}
+
+interface Candidate {
+  entry: MockEntry;
+  closeness: number;
+  reasons: string[];
+}
+
+const SHOWN_CANDIDATES = 3;
+const DIFF_CONTEXT = 40;
+
+export function formatMatcher(matcher: MockMatcher): string {
+  const scope = matcher.inTransaction === undefined ? "" : matcher.inTransaction ? " (in transaction)" : " (outside transaction)";
+  return describeMatcher(matcher) + scope;
+}
+
+function describeMatcher(matcher: MockMatcher): string {
+  switch (matcher.type) {
+    case "sql-exact":
+      return `exact: "${matcher.sql}"${formatParams(matcher.params)}`;
+    case "sql-starts-with":
+      return `partial: "${matcher.sql}"${formatParams(matcher.params)}`;
+    case "sql-pattern":
+      return `pattern: ${matcher.pattern}${formatParams(matcher.params)}`;
+    case "sql-contains":
+      return `contains: "${matcher.substring}"${formatParams(matcher.params)}`;
+    case "structural":
+      return `structural: ${matcher.operation} on "${matcher.tableName}"${matcher.values ? ` values: ${formatValue(matcher.values)}` : matcher.columnKeys ? ` columns: [${matcher.columnKeys.join(", ")}]` : ""}${matcher.rowCount !== undefined ? ` rows: ${matcher.rowCount}` : ""}${matcher.joins ? ` joins: [${matcher.joins.map(formatJoin).join(", ")}]` : ""}${matcher.returning ? " returning" : ""}${matcher.relational ? ` ${formatRelationalShape(matcher.relational)}` : ""}`;
+  }
+}
+
+function joinedTable(join: JoinConstraint): string {
+  return join.tableSchema ? `${join.tableSchema}.${join.tableName}` : join.tableName;
+}
+
+function formatJoin(join: JoinConstraint): string {
+  return join.joinType ? `${join.joinType} join ${joinedTable(join)}` : joinedTable(join);
+}
+
+function formatParams(params: unknown[] | undefined): string {
+  return params ? ` params: ${formatValue(params)}` : "";
+}
+
+export function formatUnmatchedMessage(query: QueryDetails, mocks: MockEntry[], normalizer: SqlNormalizer): string {
+  const header = `No mock registered for query:\n  SQL: ${query.sql}\n  Params: ${JSON.stringify(query.params)}`;
+  if (mocks.length === 0) return header;
+
+  const candidates = mocks
+    .map((entry) => diagnose(entry, query, normalizer))
+    // Newest first on ties, matching the order mocks are tried in
+    .reverse()
+    .sort((a, b) => b.closeness - a.closeness);
+
+  const shown = candidates.slice(0, SHOWN_CANDIDATES).map((candidate, i) => {
+    const reasons = candidate.reasons.map((reason) => `     - ${reason.replace(/\n/g, "\n       ")}`);
+    return [`  ${i + 1}. ${formatMatcher(candidate.entry.matcher)}`, ...reasons].join("\n");
+  });
+  const hidden = candidates.length - shown.length;
+  const more = hidden > 0 ? `\n  ... ${hidden} more not shown` : "";
+
+  return `${header}\n\nRegistered mocks, closest first:\n${shown.join("\n")}${more}`;
+}
+
+// Closeness runs from 0 (unrelated) to 5 (only a param, a once() flag or the transaction scope kept it from matching)
+function diagnose(entry: MockEntry, query: QueryDetails, normalizer: SqlNormalizer): Candidate {
+  const { closeness, reasons } = diagnoseMatcher(entry.matcher, query, normalizer);
+  if (entry.consumed) {
+    reasons.push("already used: .once() mocks only answer one query");
+  }
+  if (entry.matcher.inTransaction !== undefined && entry.matcher.inTransaction !== !!query.inTransaction) {
+    reasons.push(
+      entry.matcher.inTransaction
+        ? "transaction: only matches queries inside a transaction, but this one ran outside"
+        : "transaction: only matches queries outside a transaction, but this one ran inside"
+    );
+  }
+  return { entry, closeness, reasons };
+}
+
+function diagnoseMatcher(
+  matcher: MockMatcher,
+  query: QueryDetails,
+  normalizer: SqlNormalizer
+): { closeness: number; reasons: string[] } {
+  switch (matcher.type) {
+    case "sql-exact": {
+      const expected = normalizeSql(matcher.sql);
+      if (expected !== query.sql) {
+        return { closeness: 3 * similarity(expected, query.sql), reasons: [sqlDiff(expected, query.sql)] };
+      }
+      return paramDiagnosis(matcher.params, query.params);
+    }
+    case "sql-starts-with": {
+      const expected = normalizeSql(matcher.sql);
+      if (!query.sql.startsWith(expected)) {
+        const actual = query.sql.slice(0, expected.length);
+        return { closeness: 3 * similarity(expected, actual), reasons: [sqlDiff(expected, actual, "SQL prefix differs")] };
+      }
+      return paramDiagnosis(matcher.params, query.params);
+    }
+    case "sql-pattern": {
+      if (!matcher.pattern.test(query.sql) && !matcher.pattern.test(query.canonicalSql)) {
+        return { closeness: 0.5, reasons: [`SQL does not match ${matcher.pattern}`] };
+      }
+      return paramDiagnosis(matcher.params, query.params);
+    }
+    case "sql-contains": {
+      if (!query.canonicalSql.includes(normalizer.canonicalizePattern(matcher.substring))) {
+        return { closeness: 0.5, reasons: [`SQL does not contain "${matcher.substring}"`] };
+      }
+      return paramDiagnosis(matcher.params, query.params);
+    }
+    case "structural":
+      return structuralDiagnosis(matcher, query);
+  }
+}
+
+function paramDiagnosis(expected: unknown[] | undefined, actual: unknown[]): { closeness: number; reasons: string[] } {
+  if (expected === undefined) return { closeness: 5, reasons: [] };
+  if (expected.length !== actual.length) {
+    return { closeness: 4, reasons: [`params: expected ${expected.length}, got ${actual.length}`] };
+  }
+  const reasons: string[] = [];
+  expected.forEach((value, i) => {
+    if (!matchesValue(value, actual[i])) {
+      reasons.push(`param ${i + 1}: expected ${formatValue(value)}, got ${formatValue(actual[i])}`);
+    }
+  });
+  return { closeness: 4.5, reasons };
+}
+
+function structuralDiagnosis(
+  matcher: Extract<MockMatcher, { type: "structural" }>,
+  { config, fragmentForm, params }: QueryDetails
+): { closeness: number; reasons: string[] } {
+  if (!config) {
+    return { closeness: 0, reasons: ["query was not built with a drizzle query builder"] };
+  }
+
+  const sameOperation = matcher.operation === config.operation;
+  const sameTable = matcher.tableName === config.tableName && matcher.tableSchema === config.tableSchema;
+  if (!sameTable) {
+    const expected = matcher.tableSchema ? `${matcher.tableSchema}.${matcher.tableName}` : matcher.tableName;
+    const actual = config.tableSchema ? `${config.tableSchema}.${config.tableName}` : config.tableName;
+    return { closeness: sameOperation ? 1 : 0, reasons: [`table: expected "${expected}", got "${actual}"`] };
+  }
+  if (!sameOperation) {
+    return { closeness: 2, reasons: [`operation: expected ${matcher.operation}, got ${config.operation}`] };
+  }
+
+  const reasons: string[] = [];
+  const missing = (matcher.columnKeys ?? []).filter((key) => !config.columnKeys.includes(key));
+  if (missing.length > 0) {
+    reasons.push(`missing columns: ${missing.join(", ")}`);
+  }
+  const rowCount = config.values?.length ?? 0;
+  if (matcher.rowCount !== undefined && rowCount !== matcher.rowCount) {
+    reasons.push(`rows: expected ${matcher.rowCount}, got ${rowCount}`);
+  }
+  if (matcher.values) {
+    reasons.push(...valueReasons(matcher.values, config));
+  }
+  if (matcher.returning && !config.selection) {
+    reasons.push("returning: expected .returning(), but the query has none");
+  }
+  for (const join of missingJoins(matcher.joins ?? [], config)) {
+    reasons.push(`join: expected ${join.joinType ? `a ${join.joinType} join` : "a join"} on "${joinedTable(join)}"`);
+  }
+  if (matcher.relational) {
+    reasons.push(...relationalMismatches(matcher.relational, config.relational ?? {}));
+  }
+  for (const fragment of matcher.sqlFragments ?? []) {
+    const reason = fragmentReason(fragment, fragmentForm, params);
+    if (reason) reasons.push(reason);
+  }
+  return { closeness: 3 + 1 / (1 + reasons.length), reasons };
+}
+
+function valueReasons(expected: Record<string, unknown>, config: CapturedConfig): string[] {
+  const rows = config.operation === "insert" ? config.values ?? [] : config.set ? [config.set] : [];
+  if (rows.length === 0) return ["no values were written"];
+
+  const index = rows.findIndex((row) => !matchesValueSubset(expected, row));
+  if (index === -1) return [];
+  const row = rows[index];
+  const prefix = rows.length > 1 ? `row ${index + 1} ` : "";
+  return Object.entries(expected)
+    .filter(([key, value]) => !(key in row) || !matchesValue(value, row[key]))
+    .map(([key, value]) =>
+      key in row
+        ? `${prefix}${key}: expected ${formatValue(value)}, got ${formatValue(row[key])}`
+        : `${prefix}${key}: expected ${formatValue(value)}, but it was not written`
+    );
+}
+
+function fragmentReason(fragment: SqlFragment, fragmentForm: string, params: unknown[]): string | undefined {
+  const index = fragmentForm.indexOf(fragment.normalizedSql);
+  if (index === -1) {
+    return `containingSql fragment not found: ${fragment.normalizedSql}`;
+  }
+  const offset = (fragmentForm.slice(0, index).match(/\?/g) || []).length;
+  const position = fragment.params.findIndex((value, i) => !matchesValue(value, params[offset + i]));
+  if (position === -1) return undefined;
+  return (
+    `containingSql fragment ${fragment.normalizedSql}: param ${position + 1} expected ` +
+    `${formatValue(fragment.params[position])}, got ${formatValue(params[offset + position])}`
+  );
+}
+
+function tokenize(sql: string): string[] {
+  return sql.match(/"[^"]*"|`[^`]*`|'[^']*'|\$?\w+|\S/g) ?? [];
+}
+
+// Token overlap between two SQL strings, from 0 (nothing shared) to 1 (identical)
+function similarity(a: string, b: string): number {
+  const left = tokenize(a);
+  const right = tokenize(b);
+  // Two statements without tokens are alike, rather than 0/0
+  if (left.length === 0 && right.length === 0) return 1;
+  let previous = new Array<number>(right.length + 1).fill(0);
+  for (const token of left) {
+    const current = [0];
+    for (let j = 0; j < right.length; j++) {
+      current.push(token === right[j] ? previous[j] + 1 : Math.max(previous[j + 1], current[j]));
+    }
+    previous = current;
+  }
+  return (2 * previous[right.length]) / (left.length + right.length);
+}
+
+// Shows both statements around the first difference, with a caret under it
+function sqlDiff(expected: string, actual: string, label = "SQL differs"): string {
+  let position = 0;
+  while (position < expected.length && expected[position] === actual[position]) position++;
+  const start = Math.max(0, position - DIFF_CONTEXT);
+  const clip = (text: string) => (start > 0 ? `...${text.slice(start)}` : text);
+  const caretOffset = position - start + (start > 0 ? 3 : 0);
+  return [
+    `${label}:`,
+    `  expected: ${clip(expected)}`,
+    `  actual:   ${clip(actual)}`,
+    `            ${" ".repeat(caretOffset)}^`,
+  ].join("\n");
+}
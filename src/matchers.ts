@@ -0,0 +1,316 @@
+// ABOUTME: Vitest matchers for asserting on the queries a MockController recorded.
+// ABOUTME: Register with expect.extend(drizzleMatchers); failures list the recorded SQL and params.
+
+import type { Table } from "drizzle-orm";
+import { readOperations, TableName, TableSchema } from "./drizzle-internals.js";
+import { MockController } from "./mock-controller.js";
+import { formatValue, matchesValueSubset } from "./value-matching.js";
+import type { MockHandle, RecordedCall, TransactionConfig, TransactionEvent } from "./types.js";
+
+export type QueryOperation = "select" | "insert" | "update" | "delete" | "findFirst" | "findMany";
+
+export interface CallCountOptions {
+  times?: number;
+  // Only count calls made inside a transaction (true), outside one (false), or inside one begun with these options
+  inTransaction?: boolean | TransactionConfig;
+}
+
+/** A mock handle, or an operation on a table, expected in toHaveExecutedInOrder(). */
+export type ExecutionStep = MockHandle | { operation: QueryOperation; table: Table };
+
+export interface DrizzleMockMatchers<R = unknown> {
+  toHaveExecutedSelect(table: Table, options?: CallCountOptions): R;
+  toHaveInsertedInto<TTable extends Table>(
+    table: TTable,
+    values?: Partial<TTable["$inferInsert"]>,
+    options?: CallCountOptions
+  ): R;
+  toHaveUpdated<TTable extends Table>(
+    table: TTable,
+    set?: Partial<TTable["$inferInsert"]>,
+    options?: CallCountOptions
+  ): R;
+  toHaveDeletedFrom(table: Table, options?: CallCountOptions): R;
+  toHaveExecutedInOrder(steps: ExecutionStep[]): R;
+  toHaveCommittedTransaction(config?: TransactionConfig, options?: Pick<CallCountOptions, "times">): R;
+  toHaveRolledBackTransaction(config?: TransactionConfig, options?: Pick<CallCountOptions, "times">): R;
+}
+
+declare module "vitest" {
+  interface Assertion<T = any> extends DrizzleMockMatchers<T> {}
+}
+
+interface MatcherContext {
+  isNot: boolean;
+}
+
+interface MatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+function mockController(received: unknown, matcherName: string): MockController<any, boolean> {
+  if (!(received instanceof MockController)) {
+    throw new TypeError(`${matcherName}() expects the MockController returned by mockDatabase()`);
+  }
+  return received;
+}
+
+function describeTable(table: Table): string {
+  const schema: string | undefined = (table as any)[TableSchema];
+  const name: string = (table as any)[TableName];
+  return schema ? `"${schema}"."${name}"` : `"${name}"`;
+}
+
+function isOnTable(call: RecordedCall, table: Table): boolean {
+  return call.tableName === (table as any)[TableName] && call.tableSchema === (table as any)[TableSchema];
+}
+
+function matchesOperation(call: RecordedCall, operation: string): boolean {
+  // Relational queries are selects too
+  if (operation === "select") return call.operation !== undefined && readOperations.has(call.operation);
+  return call.operation === operation;
+}
+
+// A call's transaction config is the one its outermost transaction began with
+function inTransactionScope(call: RecordedCall, events: TransactionEvent[], inTransaction: CallCountOptions["inTransaction"]): boolean {
+  if (inTransaction === undefined) return true;
+  const outermost = call.transactionPath?.[0];
+  if (typeof inTransaction === "boolean") return (outermost !== undefined) === inTransaction;
+  if (outermost === undefined) return false;
+  const begin = events.find((event) => event.type === "begin" && event.transactionId === outermost);
+  return matchesValueSubset(inTransaction as Record<string, unknown>, { ...begin?.config });
+}
+
+function describeScope(inTransaction: CallCountOptions["inTransaction"]): string {
+  if (inTransaction === undefined) return "";
+  if (typeof inTransaction === "boolean") return inTransaction ? " inside a transaction" : " outside a transaction";
+  return ` inside a transaction with ${formatValue(inTransaction)}`;
+}
+
+function formatCalls(calls: RecordedCall[]): string {
+  if (calls.length === 0) return "Recorded queries: (none)";
+  const lines = calls.map((call, i) => `  ${i + 1}. ${call.sql}\n     params: ${formatValue(call.params)}`);
+  return `Recorded queries:\n${lines.join("\n")}`;
+}
+
+function withArticle(description: string): string {
+  return /^[aeiou]/.test(description) ? `an ${description}` : `a ${description}`;
+}
+
+function plural(count: number): string {
+  return count === 1 ? "1 time" : `${count} times`;
+}
+
+// Shared by the per-table matchers: counts matching calls and compares against `times` if given
+function countMatcher(
+  context: MatcherContext,
+  controller: MockController<any, boolean>,
+  description: string,
+  isMatch: (call: RecordedCall) => boolean,
+  options: CallCountOptions = {}
+): MatcherResult {
+  const calls = controller.calls;
+  const { times, inTransaction } = options;
+  const count = calls.filter(
+    (call) => isMatch(call) && inTransactionScope(call, controller.transactionEvents, inTransaction)
+  ).length;
+  description += describeScope(inTransaction);
+  const pass = times === undefined ? count > 0 : count === times;
+  const message = () => {
+    let expectation: string;
+    if (times === undefined) {
+      expectation = context.isNot
+        ? `Expected no ${description}, but found ${count}.`
+        : `Expected ${withArticle(description)}, but none was executed.`;
+    } else {
+      expectation = context.isNot
+        ? `Expected ${withArticle(description)} not to run ${plural(times)}, but it did.`
+        : `Expected ${withArticle(description)} to run ${plural(times)}, but it ran ${plural(count)}.`;
+    }
+    return `${expectation}\n\n${formatCalls(calls)}`;
+  };
+  return { pass, message };
+}
+
+type TransactionEnd = "commit" | "rollback";
+
+// One line per top-level transaction: its config and how it ended
+function formatTransactions(events: TransactionEvent[]): string {
+  const begins = events.filter((event) => event.type === "begin");
+  if (begins.length === 0) return "Recorded transactions: (none)";
+  const lines = begins.map((begin, i) => {
+    const end = transactionEnd(events, begin.transactionId);
+    const config = begin.config ? ` ${formatValue(begin.config)}` : "";
+    let outcome = "still open";
+    if (end?.type === "commit") outcome = "committed";
+    if (end?.type === "rollback") {
+      outcome = end.cause === "error" ? `rolled back (threw ${formatError(end.error)})` : "rolled back (tx.rollback())";
+    }
+    return `  ${i + 1}. transaction ${begin.transactionId}${config}: ${outcome}`;
+  });
+  return `Recorded transactions:\n${lines.join("\n")}`;
+}
+
+function formatError(error: unknown): string {
+  return error instanceof Error ? `${error.name}: ${error.message}` : formatValue(error);
+}
+
+function transactionEnd(events: TransactionEvent[], transactionId: number): TransactionEvent | undefined {
+  return events.find(
+    (event) => (event.type === "commit" || event.type === "rollback") && event.transactionId === transactionId
+  );
+}
+
+// Shared by the transaction matchers: counts top-level transactions that began with `config` and ended this way
+function transactionMatcher(
+  context: MatcherContext,
+  controller: MockController<any, boolean>,
+  end: TransactionEnd,
+  config: TransactionConfig | undefined,
+  options: Pick<CallCountOptions, "times"> = {}
+): MatcherResult {
+  const events = controller.transactionEvents;
+  const count = events.filter(
+    (event) =>
+      event.type === "begin" &&
+      transactionEnd(events, event.transactionId)?.type === end &&
+      (!config || matchesValueSubset(config as Record<string, unknown>, { ...event.config }))
+  ).length;
+  const { times } = options;
+  const description = `${end === "commit" ? "committed" : "rolled back"} transaction${
+    config ? ` with ${formatValue(config)}` : ""
+  }`;
+  const pass = times === undefined ? count > 0 : count === times;
+  const message = () => {
+    let expectation: string;
+    if (times === undefined) {
+      expectation = context.isNot
+        ? `Expected no ${description}, but found ${count}.`
+        : `Expected a ${description}, but none was found.`;
+    } else {
+      expectation = context.isNot
+        ? `Expected a ${description} not to happen ${plural(times)}, but it did.`
+        : `Expected a ${description} to happen ${plural(times)}, but it happened ${plural(count)}.`;
+    }
+    return `${expectation}\n\n${formatTransactions(events)}`;
+  };
+  return { pass, message };
+}
+
+function describeValues(values: Record<string, unknown> | undefined): string {
+  return values ? ` with ${formatValue(values)}` : "";
+}
+
+function describeStep(step: ExecutionStep): string {
+  if ("mock" in step) {
+    const [first] = step.mock.calls;
+    return first ? `mock handle (first matched: ${first[0]})` : "mock handle (never matched)";
+  }
+  return `${step.operation} on ${describeTable(step.table)}`;
+}
+
+function matchesStep(call: RecordedCall, step: ExecutionStep): boolean {
+  if ("mock" in step) return call.handle === step;
+  return matchesOperation(call, step.operation) && isOnTable(call, step.table);
+}
+
+export const drizzleMatchers = {
+  toHaveExecutedSelect(this: MatcherContext, received: unknown, table: Table, options?: CallCountOptions) {
+    const controller = mockController(received, "toHaveExecutedSelect");
+    return countMatcher(
+      this,
+      controller,
+      `select on ${describeTable(table)}`,
+      (call) => matchesOperation(call, "select") && isOnTable(call, table),
+      options
+    );
+  },
+
+  toHaveInsertedInto(
+    this: MatcherContext,
+    received: unknown,
+    table: Table,
+    values?: Record<string, unknown>,
+    options?: CallCountOptions
+  ) {
+    const controller = mockController(received, "toHaveInsertedInto");
+    return countMatcher(
+      this,
+      controller,
+      `insert into ${describeTable(table)}${describeValues(values)}`,
+      (call) =>
+        matchesOperation(call, "insert") &&
+        isOnTable(call, table) &&
+        (!values || (call.values ?? []).some((row) => matchesValueSubset(values, row))),
+      options
+    );
+  },
+
+  toHaveUpdated(
+    this: MatcherContext,
+    received: unknown,
+    table: Table,
+    set?: Record<string, unknown>,
+    options?: CallCountOptions
+  ) {
+    const controller = mockController(received, "toHaveUpdated");
+    return countMatcher(
+      this,
+      controller,
+      `update on ${describeTable(table)}${describeValues(set)}`,
+      (call) =>
+        matchesOperation(call, "update") &&
+        isOnTable(call, table) &&
+        (!set || (call.set !== undefined && matchesValueSubset(set, call.set))),
+      options
+    );
+  },
+
+  toHaveDeletedFrom(this: MatcherContext, received: unknown, table: Table, options?: CallCountOptions) {
+    const controller = mockController(received, "toHaveDeletedFrom");
+    return countMatcher(
+      this,
+      controller,
+      `delete from ${describeTable(table)}`,
+      (call) => matchesOperation(call, "delete") && isOnTable(call, table),
+      options
+    );
+  },
+
+  // Steps must appear in the recorded calls in this order; other queries may run in between
+  toHaveExecutedInOrder(this: MatcherContext, received: unknown, steps: ExecutionStep[]): MatcherResult {
+    const calls = mockController(received, "toHaveExecutedInOrder").calls;
+    let next = 0;
+    for (const call of calls) {
+      if (next < steps.length && matchesStep(call, steps[next])) next++;
+    }
+    const pass = next === steps.length;
+    const expected = steps.map((step, i) => `  ${i + 1}. ${describeStep(step)}`).join("\n");
+    const message = () => {
+      const summary = this.isNot
+        ? "Expected queries not to run in this order, but they did:"
+        : `Expected queries to run in this order, but step ${next + 1} (${describeStep(steps[next])}) was not found after the earlier steps:`;
+      return `${summary}\n${expected}\n\n${formatCalls(calls)}`;
+    };
+    return { pass, message };
+  },
+
+  toHaveCommittedTransaction(
+    this: MatcherContext,
+    received: unknown,
+    config?: TransactionConfig,
+    options?: Pick<CallCountOptions, "times">
+  ) {
+    return transactionMatcher(this, mockController(received, "toHaveCommittedTransaction"), "commit", config, options);
+  },
+
+  toHaveRolledBackTransaction(
+    this: MatcherContext,
+    received: unknown,
+    config?: TransactionConfig,
+    options?: Pick<CallCountOptions, "times">
+  ) {
+    return transactionMatcher(this, mockController(received, "toHaveRolledBackTransaction"), "rollback", config, options);
+  },
+};
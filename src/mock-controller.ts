@@ -1,9 +1,23 @@
 // ABOUTME: Provides the public API for registering mock responses on drizzle queries.
 // ABOUTME: Supports both SQL-based matching (via query builders) and structural matching (via callbacks).
 
-import type { Table } from "drizzle-orm";
-import { MockHandler, normalizeSql } from "./mock-handler.js";
-import type { MockEntry, MockHandle, MockMatcher, RecordedCall, SqlFragment } from "./types.js";
+import { getTableUniqueName } from "drizzle-orm";
+import type { Column, Operators, OrderByOperators, SQL, Table } from "drizzle-orm";
+import type { MySqlDeleteBase, MySqlInsertBase, MySqlUpdateBase } from "drizzle-orm/mysql-core";
+import type { PgDeleteBase, PgInsertBase, PgUpdateBase } from "drizzle-orm/pg-core";
+import type { SQLiteDeleteBase, SQLiteInsertBase, SQLiteUpdateBase } from "drizzle-orm/sqlite-core";
+import { anything } from "./anything.js";
+import { dbErrors } from "./db-errors.js";
+import { EntityKind, readOperations, tableKey, TableName, TableSchema, writeOperations } from "./drizzle-internals.js";
+import { createFactoryState, Factory, type FactoryOverrides, type FactoryState } from "./factory.js";
+import type { MockHandler } from "./mock-handler.js";
+import { relationalConstraint, type RelationalSchema, type RenderSql } from "./relational-matching.js";
+import { normalizeSql, type SqlNormalizer } from "./sql-normalization.js";
+import { supportsInsertId } from "./result-shapes.js";
+import type { TableStore } from "./table-store.js";
+import type { UnmatchedBehavior } from "./unmatched.js";
+import { unwrapParams } from "./value-matching.js";
+import type { CapturedConfig, JoinConstraint, JoinFixtures, MockEntry, MockHandle, MockMatcher, MockResponse, RecordedCall, RelationalShape, SqlFragment, TransactionConfig, TransactionEvent, TransactionFailureStage } from "./types.js";
 
 export function createMockHandle(): MockHandle {
   const handle = Object.assign(function () {}, {
@@ -20,10 +34,6 @@ export interface QueryLike {
   toSQL(): { sql: string; params: unknown[] };
 }
 
-const EntityKind = Symbol.for("drizzle:entityKind");
-const TableName = Symbol.for("drizzle:Name");
-const TableSchema = Symbol.for("drizzle:Schema");
-
 const operationByEntityKind: Record<string, string> = {
   PgUpdate: "update",
   MySqlUpdate: "update",
@@ -49,11 +59,16 @@ const relationalEntityKinds = new Set([
   "SQLiteSyncRelationalQuery",
 ]);
 
-function extractStructuralMatcher(queryBuilder: any): MockMatcher {
+interface ExtractedMatcher {
+  matcher: MockMatcher;
+  values?: Record<string, unknown>;
+}
+
+function extractStructuralMatcher(queryBuilder: any, render: RenderSql): ExtractedMatcher {
   const entityKind = queryBuilder.constructor[EntityKind] ?? queryBuilder[EntityKind];
 
   if (relationalEntityKinds.has(entityKind)) {
-    return extractRelationalMatcher(queryBuilder);
+    return { matcher: extractRelationalMatcher(queryBuilder, render) };
   }
 
   const operation = entityKind ? operationByEntityKind[entityKind] : undefined;
@@ -79,22 +94,29 @@ function extractStructuralMatcher(queryBuilder: any): MockMatcher {
   const tableSchema: string | undefined = table[TableSchema];
 
   let columnKeys: string[] | undefined;
+  let values: Record<string, unknown> | undefined;
   if (operation === "update" && config.set) {
     columnKeys = Object.keys(config.set);
+    values = unwrapParams(config.set);
   } else if (operation === "insert" && config.values && Array.isArray(config.values) && config.values.length > 0) {
     columnKeys = Object.keys(config.values[0]);
+    values = unwrapParams(config.values[0]);
   }
 
   return {
-    type: "structural",
-    operation,
-    tableName,
-    tableSchema,
-    columnKeys,
+    matcher: {
+      type: "structural",
+      operation,
+      tableName,
+      tableSchema,
+      columnKeys,
+    },
+    values,
   };
 }
 
-function extractRelationalMatcher(queryBuilder: any): MockMatcher {
+// The query's config (with, columns, where, ...) becomes part of the matcher
+function extractRelationalMatcher(queryBuilder: any, render: RenderSql): MockMatcher {
   const table = queryBuilder.table;
 
   if (!table) {
@@ -104,19 +126,39 @@ function extractRelationalMatcher(queryBuilder: any): MockMatcher {
   }
 
   const operation = queryBuilder.mode === "first" ? "findFirst" : "findMany";
-
-  return {
+  const matcher: MockMatcher = {
     type: "structural",
     operation,
     tableName: table[TableName],
     tableSchema: table[TableSchema],
   };
+  const relational = relationalConstraint(queryBuilder, queryBuilder.tableConfig, queryBuilder.config, render, operation);
+  if (relational) matcher.relational = relational;
+  return matcher;
+}
+
+function throwIfUnused(problems: string[]): void {
+  if (problems.length === 0) return;
+  throw new Error(
+    `${problems.length} drizzle ${problems.length === 1 ? "mock was" : "mocks were"} not used as expected:\n` +
+    problems.map((problem) => `  - ${problem}`).join("\n")
+  );
 }
 
-export class MockController<TDb = any> {
+/** The registration methods of a controller whose mocks only match inside, or only outside, transactions. */
+export type ScopedMockController<TDb = any, TRaw extends boolean = false> = Pick<
+  MockController<TDb, TRaw>,
+  "on" | "onInsert" | "onUpdate" | "onDelete" | "onSelect" | "onFindFirst" | "onFindMany" | "onSql" | "onSqlContaining"
+>;
+
+// TRaw is true under rawDriverRows, where responses are driver rows and table types don't apply
+export class MockController<TDb = any, TRaw extends boolean = false> {
   private dialect: any;
+  private factoryStates = new Map<string, FactoryState>();
+  private renderSql: RenderSql = (expr) => serializeSqlFragment(this.dialect, this.handler.normalizer, expr);
 
-  constructor(private handler: MockHandler, private db: TDb) {
+  // `transactionScope` is set on the controllers inTransaction() and outsideTransaction() return
+  constructor(private handler: MockHandler, private db: TDb, private transactionScope?: boolean) {
     this.dialect = (db as any).dialect;
   }
 
@@ -124,69 +166,159 @@ export class MockController<TDb = any> {
     return this.handler.calls;
   }
 
-  on(callback: (db: TDb) => any): MockBuilder;
+  get transactionEvents(): TransactionEvent[] {
+    return this.handler.transactionEvents;
+  }
+
+  on<TQuery>(callback: (db: TDb) => TQuery): MockBuilder<Fixture<QueryResponse<TQuery>, TRaw>>;
   on(queryBuilder: QueryLike): MockBuilder;
-  on(queryBuilderOrCallback: QueryLike | ((db: TDb) => any)): MockBuilder {
+  on(queryBuilderOrCallback: QueryLike | ((db: TDb) => unknown)): MockBuilder<any> {
     if (typeof queryBuilderOrCallback === "function") {
       const queryBuilder = queryBuilderOrCallback(this.db);
-      const matcher = extractStructuralMatcher(queryBuilder);
-      return new MockBuilder(this.handler, matcher, this.dialect);
+      const { matcher, values } = extractStructuralMatcher(queryBuilder, this.renderSql);
+      return new MockBuilder(this.handler, this.scoped(matcher), this.dialect, values);
     }
 
     const { sql, params } = queryBuilderOrCallback.toSQL();
-    return new MockBuilder(this.handler, {
+    return new MockBuilder(this.handler, this.scoped({
       type: "sql-exact",
       sql: normalizeSql(sql),
       params,
-    }, this.dialect);
+    }), this.dialect);
   }
 
-  onInsert<TTable extends Table>(table: TTable): MockInsertBuilder<TTable> {
-    return new MockInsertBuilder<TTable>(this.handler, this.structuralMatcherForTable(table, "insert"), this.dialect);
+  /** Registers mocks that only match queries run on a `tx` inside db.transaction(), savepoints included. */
+  inTransaction(): ScopedMockController<TDb, TRaw> {
+    return new MockController<TDb, TRaw>(this.handler, this.db, true);
+  }
+
+  /** Registers mocks that only match queries run on the db itself, outside any transaction. */
+  outsideTransaction(): ScopedMockController<TDb, TRaw> {
+    return new MockController<TDb, TRaw>(this.handler, this.db, false);
+  }
+
+  /**
+   * Fails the next db.transaction(), by default as it commits with a serialization failure shaped
+   * for the db's driver. Each call fails one more transaction, for testing retry loops.
+   */
+  failNextTransaction(options: { at?: TransactionFailureStage; error?: Error } = {}): void {
+    this.handler.registerTransactionFailure({
+      at: options.at ?? "commit",
+      error: options.error ?? dbErrors.serializationFailure(),
+      once: true,
+    });
   }
 
-  onUpdate<TTable extends Table>(table: TTable): MockUpdateBuilder<TTable> {
-    return new MockUpdateBuilder<TTable>(this.handler, this.structuralMatcherForTable(table, "update"), this.dialect);
+  /** Fails transactions begun with options matching `config`, or all of them. */
+  onTransaction(config?: TransactionConfig): MockTransactionBuilder {
+    return new MockTransactionBuilder(this.handler, config);
+  }
+
+  private scoped(matcher: MockMatcher): MockMatcher {
+    return this.transactionScope === undefined ? matcher : { ...matcher, inTransaction: this.transactionScope };
+  }
+
+  onInsert<TTable extends Table>(table: TTable): MockInsertBuilder<TTable, unknown, TRaw> {
+    return new MockInsertBuilder<TTable, unknown, TRaw>(this.handler, this.structuralMatcherForTable(table, "insert"), this.dialect);
+  }
+
+  onUpdate<TTable extends Table>(table: TTable): MockUpdateBuilder<TTable, unknown, TRaw> {
+    return new MockUpdateBuilder<TTable, unknown, TRaw>(this.handler, this.structuralMatcherForTable(table, "update"), this.dialect);
   }
 
   onDelete(table: Table): MockBuilder {
     return new MockBuilder(this.handler, this.structuralMatcherForTable(table, "delete"), this.dialect);
   }
 
-  onSelect(table: Table): MockBuilder {
+  onSelect<TTable extends Table>(table: TTable): MockBuilder<Fixture<Partial<TTable["$inferSelect"]>[], TRaw>> {
     return new MockBuilder(this.handler, this.structuralMatcherForTable(table, "select"), this.dialect);
   }
 
-  onFindFirst(table: Table): MockBuilder {
-    return new MockBuilder(this.handler, this.structuralMatcherForTable(table, "findFirst"), this.dialect);
+  onFindFirst<TTable extends Table>(table: TTable): MockRelationalBuilder<TTable, Fixture<RelationalRow<TTable> | undefined, TRaw>> {
+    return this.relationalBuilder(table, "findFirst");
+  }
+
+  onFindMany<TTable extends Table>(table: TTable): MockRelationalBuilder<TTable, Fixture<RelationalRow<TTable>[], TRaw>> {
+    return this.relationalBuilder(table, "findMany");
   }
 
-  onFindMany(table: Table): MockBuilder {
-    return new MockBuilder(this.handler, this.structuralMatcherForTable(table, "findMany"), this.dialect);
+  private relationalBuilder<TTable extends Table, TResult>(table: TTable, operation: string): MockRelationalBuilder<TTable, TResult> {
+    const describe = (queryConfig: RelationalQueryConfig) => {
+      // db._ holds the schema's relations, as drizzle.mock({ schema }) set them up
+      const relationalSchema: RelationalSchema | undefined = (this.db as any)._;
+      const tableConfig = relationalSchema?.schema?.[relationalSchema.tableNamesMap[getTableUniqueName(table)]];
+      if (!tableConfig) {
+        throw new Error(
+          `Cannot match the relational config of "${(table as any)[TableName]}": the table is not in the db's schema. ` +
+          `Create the db with drizzle.mock({ schema }).`
+        );
+      }
+      return relationalConstraint(relationalSchema!, tableConfig, queryConfig, this.renderSql, operation);
+    };
+    return new MockRelationalBuilder(this.handler, this.structuralMatcherForTable(table, operation), this.dialect, describe);
   }
 
   private structuralMatcherForTable(table: Table, operation: string): MockMatcher {
     const tableName: string = (table as any)[TableName];
     const tableSchema: string | undefined = (table as any)[TableSchema];
-    return { type: "structural", operation, tableName, tableSchema };
+    return this.scoped({ type: "structural", operation, tableName, tableSchema });
   }
 
   onSql(pattern: RegExp): MockBuilder {
-    return new MockBuilder(this.handler, {
+    return new MockBuilder(this.handler, this.scoped({
       type: "sql-pattern",
       pattern,
-    }, this.dialect);
+    }), this.dialect);
   }
 
   onSqlContaining(substring: string): MockBuilder {
-    return new MockBuilder(this.handler, {
+    return new MockBuilder(this.handler, this.scoped({
       type: "sql-contains",
       substring,
-    }, this.dialect);
+    }), this.dialect);
+  }
+
+  seed(table: Table, rows: Record<string, unknown>[]): void {
+    this.requireStore("seed").seed(table, rows);
+  }
+
+  rows(table: Table): Record<string, unknown>[] {
+    return this.requireStore("rows").rows(table);
+  }
+
+  private requireStore(method: string): TableStore {
+    if (!this.handler.store) {
+      throw new Error(`mock.${method}() requires stateful mode: mockDatabase(db, { stateful: true })`);
+    }
+    return this.handler.store;
+  }
+
+  // Factories for the same table share one sequence, so ids keep counting until reset()
+  factory<TTable extends Table>(table: TTable, overrides?: FactoryOverrides<TTable>): Factory<TTable> {
+    const key = tableKey(table);
+    let state = this.factoryStates.get(key);
+    if (!state) {
+      state = createFactoryState(table);
+      this.factoryStates.set(key, state);
+    }
+    return new Factory(table, overrides, state);
+  }
+
+  onUnmatched(behavior: UnmatchedBehavior): void {
+    this.handler.unmatchedBehavior = behavior;
+  }
+
+  verify(): void {
+    throwIfUnused(this.handler.findUnusedMocks(true));
+  }
+
+  assertAllConsumed(): void {
+    throwIfUnused(this.handler.findUnusedMocks(false));
   }
 
   reset(): void {
     this.handler.reset();
+    this.factoryStates.clear();
   }
 
   resetCalls(): void {
@@ -198,34 +330,63 @@ export class MockController<TDb = any> {
   }
 }
 
-// Strip table/alias prefixes: "table"."col" → "col"
-function stripTablePrefixes(sql: string): string {
-  return sql.replace(/"[^"]+"\."([^"]+)"/g, '"$1"');
-}
-
-// Replace positional params ($1, $2, etc.) with ?
-function normalizeParamPlaceholders(sql: string): string {
-  return sql.replace(/\$\d+/g, "?");
-}
-
-function serializeSqlFragment(dialect: any, expr: any): SqlFragment {
+export function serializeSqlFragment(dialect: any, normalizer: SqlNormalizer, expr: any): SqlFragment {
   const sqlObj = typeof expr.getSQL === "function" ? expr.getSQL() : expr;
   const { sql, params } = dialect.sqlToQuery(sqlObj);
-  const normalizedSql = normalizeParamPlaceholders(stripTablePrefixes(sql));
-  return { normalizedSql, params };
+  return { normalizedSql: normalizer.fragmentForm(normalizeSql(sql)), params };
 }
 
-export class MockBuilder {
+const valueOperations = new Set(["insert", "update"]);
+
+/**
+ * What a mock for a query may respond with: the query's result with every row field optional,
+ * since fixtures usually only fill in what the code under test reads.
+ */
+export type MockRows<TResult> = TResult extends readonly (infer TRow)[]
+  ? (TRow extends object ? Partial<TRow> : TRow)[]
+  : TResult extends object
+    ? Partial<TResult>
+    : TResult;
+
+type WriteBuilder =
+  | PgInsertBase<any, any, any, any, any>
+  | PgUpdateBase<any, any, any, any, any, any, any, any>
+  | PgDeleteBase<any, any, any, any, any>
+  | MySqlInsertBase<any, any, any, any, any, any>
+  | MySqlUpdateBase<any, any, any, any, any>
+  | MySqlDeleteBase<any, any, any, any, any>
+  | SQLiteInsertBase<any, any, any, any, any, any>
+  | SQLiteUpdateBase<any, any, any, any, any, any, any>
+  | SQLiteDeleteBase<any, any, any, any, any, any>;
+
+/**
+ * What an on() mock may respond with: the query's result with partial rows. Inserts, updates and
+ * deletes may also respond with the driver's write result, e.g. `{ rowCount: 1 }` on node-postgres.
+ */
+export type QueryResponse<TQuery> =
+  | MockRows<Awaited<TQuery>>
+  | (TQuery extends WriteBuilder ? Record<string, unknown> : never);
+
+/** A row for findFirst/findMany mocks. Relations loaded with `with` are extra keys. */
+export type RelationalRow<TTable extends Table> = Partial<TTable["$inferSelect"]> & Record<string, unknown>;
+
+// Driver rows don't follow the table's types, so rawDriverRows mocks accept any response
+type Fixture<TTyped, TRaw extends boolean> = TRaw extends true ? unknown : TTyped;
+
+export class MockBuilder<TResult = unknown> {
   private matchParams = false;
+  private expectedParams?: unknown[];
+  private matchValues = false;
   private isOnce = false;
   private isPartial = false;
   private fragments: SqlFragment[] = [];
   private registeredEntry?: MockEntry;
 
   constructor(
-    private handler: MockHandler,
+    protected handler: MockHandler,
     protected matcher: MockMatcher,
     private dialect: any,
+    protected expectedValues?: Record<string, unknown>,
   ) {}
 
   partial(): this {
@@ -247,11 +408,58 @@ export class MockBuilder {
     return this;
   }
 
+  withParams(params: unknown[]): this {
+    if (this.matcher.type === "structural") {
+      throw new Error(".withParams() cannot be used with structural matchers. Use .containingSql() or .withExactValues() instead.");
+    }
+    this.expectedParams = params;
+    return this;
+  }
+
+  withExactValues(): this {
+    if (this.matcher.type !== "structural" || !valueOperations.has(this.matcher.operation)) {
+      throw new Error(".withExactValues() can only be used with insert and update matchers");
+    }
+    this.matchValues = true;
+    return this;
+  }
+
   containingSql(expr: any): this {
     if (this.matcher.type !== "structural") {
       throw new Error(".containingSql() can only be used with structural matchers (callback-based .on())");
     }
-    this.fragments.push(serializeSqlFragment(this.dialect, expr));
+    this.fragments.push(serializeSqlFragment(this.dialect, this.handler.normalizer, expr));
+    return this;
+  }
+
+  // Only match selects that join this table; .leftJoin() also requires a left join
+  // Joined selects respond with rows nested by table name, so the row type no longer applies
+  joining(table: Table): MockBuilder<Record<string, unknown>[]> {
+    return this.requireJoin(table, "joining");
+  }
+
+  leftJoin(table: Table): MockBuilder<Record<string, unknown>[]> {
+    return this.requireJoin(table, "leftJoin", "left");
+  }
+
+  private requireJoin(table: Table, method: string, joinType?: "left"): MockBuilder<Record<string, unknown>[]> {
+    if (this.matcher.type !== "structural" || this.matcher.operation !== "select") {
+      throw new Error(`.${method}() can only be used with onSelect() mocks`);
+    }
+    const constraint: JoinConstraint = {
+      tableName: (table as any)[TableName],
+      tableSchema: (table as any)[TableSchema],
+    };
+    if (joinType) constraint.joinType = joinType;
+    this.matcher.joins = [...(this.matcher.joins ?? []), constraint];
+    return this as MockBuilder<any>;
+  }
+
+  protected requireReturning(method: string): any {
+    if (this.matcher.type !== "structural") {
+      throw new Error(`${method} can only be used with onInsert() and onUpdate() mocks`);
+    }
+    this.matcher.returning = true;
     return this;
   }
 
@@ -267,7 +475,7 @@ export class MockBuilder {
     return this.registeredEntry.handle;
   }
 
-  respondOnce(data: unknown): this {
+  respondOnce(data: TResult): this {
     if (!this.registeredEntry) {
       const handle = createMockHandle();
       const matcher = this.buildMatcher();
@@ -286,7 +494,7 @@ export class MockBuilder {
     return this;
   }
 
-  respond(data: unknown): MockHandle {
+  respond(data: TResult): MockHandle {
     if (this.registeredEntry) {
       this.registeredEntry.response = { type: "data", data };
       this.registeredEntry.once = false;
@@ -304,9 +512,36 @@ export class MockBuilder {
     return handle;
   }
 
-  respondWith(fn: (sql: string, params: unknown[]) => unknown): MockHandle {
+  respondWith(fn: (sql: string, params: unknown[]) => TResult | Promise<TResult>): MockHandle {
+    return this.registerFunction(fn);
+  }
+
+  protected registerFunction(fn: (sql: string, params: unknown[], config?: CapturedConfig) => unknown): MockHandle {
+    return this.registerResponse({ type: "function", fn });
+  }
+
+  // For selects with joins, pass fixtures per table ({ posts: [...], users: [...] }); they are
+  // joined on the query's conditions into drizzle's { posts, users } result shape. findFirst and
+  // findMany load their `with` relations from per-table fixtures the same way.
+  rows(rows: Record<string, unknown>[] | JoinFixtures): MockHandle {
+    if (this.matcher.type !== "structural" || !readOperations.has(this.matcher.operation)) {
+      throw new Error(".rows() can only be used with onSelect(), onFindFirst() and onFindMany()");
+    }
+    return this.registerResponse({ type: "rows", rows });
+  }
+
+  // Responds with the driver's write result, e.g. { rowCount } for node-postgres or
+  // [ResultSetHeader] for mysql2. Inserts affect as many rows as they wrote unless given a count.
+  affects(count: number): MockHandle {
+    if (this.matcher.type === "structural" && !writeOperations.has(this.matcher.operation)) {
+      throw new Error(".affects() can only be used with insert, update and delete mocks");
+    }
+    return this.registerResponse({ type: "write", affected: count });
+  }
+
+  protected registerResponse(response: MockResponse): MockHandle {
     if (this.registeredEntry) {
-      this.registeredEntry.response = { type: "function", fn };
+      this.registeredEntry.response = response;
       this.registeredEntry.once = false;
       return this.registeredEntry.handle;
     }
@@ -314,7 +549,7 @@ export class MockBuilder {
     const matcher = this.buildMatcher();
     this.handler.register({
       matcher,
-      response: { type: "function", fn },
+      response,
       once: this.isOnce,
       consumed: false,
       handle,
@@ -338,36 +573,178 @@ export class MockBuilder {
 
   private buildMatcher(): MockMatcher {
     if (this.matcher.type === "structural") {
-      if (this.fragments.length > 0) {
-        return { ...this.matcher, sqlFragments: this.fragments };
+      if (this.matchValues && !this.expectedValues) {
+        throw new Error(".withExactValues() requires values: call .values() or .set() first");
       }
-      return this.matcher;
+      const matcher = { ...this.matcher };
+      if (this.matchValues) matcher.values = this.expectedValues;
+      if (this.fragments.length > 0) matcher.sqlFragments = this.fragments;
+      return matcher;
     }
     if (this.matcher.type === "sql-exact") {
       const type = this.isPartial ? "sql-starts-with" as const : "sql-exact" as const;
+      const { inTransaction } = this.matcher;
+      const scope = inTransaction === undefined ? {} : { inTransaction };
+      if (this.expectedParams) {
+        return { type, sql: this.matcher.sql, params: this.expectedParams, ...scope };
+      }
       if (this.matchParams) {
-        return { type, sql: this.matcher.sql, params: this.matcher.params };
+        return { type, sql: this.matcher.sql, params: this.matcher.params, ...scope };
       }
-      return { type, sql: this.matcher.sql };
+      return { type, sql: this.matcher.sql, ...scope };
+    }
+    if (this.expectedParams) {
+      return { ...this.matcher, params: this.expectedParams };
     }
     return this.matcher;
   }
 }
 
-export class MockInsertBuilder<TTable extends Table> extends MockBuilder {
+/**
+ * Makes matching transactions fail, as they commit unless .atBegin() is called. Failures only
+ * apply to db.transaction() itself; savepoints from tx.transaction() always succeed.
+ */
+export class MockTransactionBuilder {
+  private at: TransactionFailureStage = "commit";
+  private isOnce = false;
+
+  constructor(private handler: MockHandler, private config?: TransactionConfig) {}
+
+  // Fails before the callback runs, as if BEGIN itself failed
+  atBegin(): this {
+    this.at = "begin";
+    return this;
+  }
+
+  once(): this {
+    this.isOnce = true;
+    return this;
+  }
+
+  throw(error: Error = dbErrors.serializationFailure()): void {
+    this.handler.registerTransactionFailure({
+      at: this.at,
+      error,
+      config: this.config,
+      once: this.isOnce,
+    });
+  }
+}
+
+// The relational config options a findFirst/findMany mock can require
+interface RelationalQueryConfig {
+  columns?: Record<string, boolean | undefined>;
+  with?: Record<string, true | RelationalQueryConfig>;
+  where?: unknown;
+  orderBy?: unknown;
+  limit?: unknown;
+  offset?: unknown;
+}
+
+type RelationalOrder = SQL | Column | (SQL | Column)[];
+
+/**
+ * A findFirst/findMany mock that can require parts of the query's config. Arguments take the same
+ * shape as drizzle's relational config; clauses called without one only need to be present.
+ */
+export class MockRelationalBuilder<TTable extends Table, TResult = unknown> extends MockBuilder<TResult> {
+  private queryConfig: RelationalQueryConfig = {};
+
+  constructor(
+    handler: MockHandler,
+    matcher: MockMatcher,
+    dialect: any,
+    private describe: (queryConfig: RelationalQueryConfig) => RelationalShape | undefined
+  ) {
+    super(handler, matcher, dialect);
+  }
+
+  // Relations the query must load, e.g. { posts: true } or { posts: { with: { comments: true } } }.
+  // Queries that load more relations still match.
+  with(relations: Record<string, true | RelationalQueryConfig>): this {
+    return this.require({ with: { ...this.queryConfig.with, ...relations } });
+  }
+
+  // The query must select exactly these columns
+  columns(columns: { [K in keyof TTable["$inferSelect"]]?: boolean }): this {
+    return this.require({ columns });
+  }
+
+  where(condition?: SQL | ((columns: TTable["_"]["columns"], operators: Operators) => SQL | undefined)): this {
+    return this.require({ where: condition ?? anything() });
+  }
+
+  orderBy(order?: RelationalOrder | ((columns: TTable["_"]["columns"], operators: OrderByOperators) => RelationalOrder)): this {
+    return this.require({ orderBy: order ?? anything() });
+  }
+
+  limit(count?: number): this {
+    return this.require({ limit: count ?? anything() });
+  }
+
+  offset(count?: number): this {
+    return this.require({ offset: count ?? anything() });
+  }
+
+  private require(config: RelationalQueryConfig): this {
+    this.queryConfig = { ...this.queryConfig, ...config };
+    if (this.matcher.type === "structural") {
+      this.matcher.relational = this.describe(this.queryConfig);
+    }
+    return this;
+  }
+}
+
+export class MockInsertBuilder<TTable extends Table, TResult = unknown, TRaw extends boolean = false> extends MockBuilder<TResult> {
   values(value: { [K in keyof TTable['$inferInsert']]?: any }): this {
     if (this.matcher.type === "structural") {
       this.matcher.columnKeys = Object.keys(value);
     }
+    this.expectedValues = value;
     return this;
   }
+
+  withRows(count: number): this {
+    if (this.matcher.type === "structural") {
+      this.matcher.rowCount = count;
+    }
+    return this;
+  }
+
+  insertId(id: number | bigint): MockHandle {
+    if (!supportsInsertId(this.handler.driver)) {
+      throw new Error(
+        `.insertId() is not supported by ${this.handler.driver}, which doesn't report insert ids. Use .returning() and respond with rows instead.`
+      );
+    }
+    return this.registerResponse({ type: "write", insertId: id });
+  }
+
+  // Only match inserts that use .returning(); responses are then typed as the table's rows
+  returning(): MockInsertBuilder<TTable, Fixture<Partial<TTable['$inferSelect']>[], TRaw>, TRaw> {
+    return this.requireReturning(".returning()");
+  }
+
+  respondWith(
+    fn: (sql: string, params: unknown[], rows: TTable['$inferInsert'][]) => TResult | Promise<TResult>
+  ): MockHandle {
+    return this.registerFunction((sql, params, config) =>
+      fn(sql, params, (config?.values ?? []) as TTable['$inferInsert'][])
+    );
+  }
 }
 
-export class MockUpdateBuilder<TTable extends Table> extends MockBuilder {
+export class MockUpdateBuilder<TTable extends Table, TResult = unknown, TRaw extends boolean = false> extends MockBuilder<TResult> {
   set(values: { [K in keyof TTable['$inferInsert']]?: any }): this {
     if (this.matcher.type === "structural") {
       this.matcher.columnKeys = Object.keys(values);
     }
+    this.expectedValues = values;
     return this;
   }
+
+  // Only match updates that use .returning(); responses are then typed as the table's rows
+  returning(): MockUpdateBuilder<TTable, Fixture<Partial<TTable['$inferSelect']>[], TRaw>, TRaw> {
+    return this.requireReturning(".returning()");
+  }
 }
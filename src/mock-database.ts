@@ -2,21 +2,40 @@
 // ABOUTME: Wraps dialect build methods to capture query configs for structural matching.
 
 import {
+  Column,
   fillPlaceholders,
+  getOperators,
+  getOrderByOperators,
+  getTableColumns,
+  is,
+  Placeholder,
+  SQL,
+  Table,
   TransactionRollbackError,
 } from "drizzle-orm";
+import * as vitest from "vitest";
+import { createRowDecoder, type RelationalSelectionItem } from "./driver-rows.js";
+import { TableName, TableSchema } from "./drizzle-internals.js";
 import { MockHandler } from "./mock-handler.js";
-import { MockController } from "./mock-controller.js";
-import type { CapturedConfig } from "./types.js";
+import { detectDriver } from "./result-shapes.js";
+import { MockController, serializeSqlFragment } from "./mock-controller.js";
+import { describeRelationalQuery, type RenderSql } from "./relational-matching.js";
+import { createSqlNormalizer, detectDialect } from "./sql-normalization.js";
+import { unwrapParams } from "./value-matching.js";
+import type {
+  CapturedConfig,
+  MockDatabaseOptions,
+  SelectedField,
+  TransactionConfig,
+  TransactionEvent,
+  TransactionEventType,
+} from "./types.js";
 
 interface Query {
   sql: string;
   params: unknown[];
 }
 
-const TableName = Symbol.for("drizzle:Name");
-const TableSchema = Symbol.for("drizzle:Schema");
-
 const operationByBuildMethod: Record<string, string> = {
   buildUpdateQuery: "update",
   buildInsertQuery: "insert",
@@ -29,23 +48,137 @@ function extractColumnKeys(operation: string, config: any): string[] {
     return Object.keys(config.set);
   }
   if (operation === "insert" && config.values && Array.isArray(config.values) && config.values.length > 0) {
-    return Object.keys(config.values[0]);
+    // Only keys present in every row, so column matching holds for the whole batch
+    const [first, ...rest] = config.values as Record<string, unknown>[];
+    return Object.keys(first).filter((key) => rest.every((row) => key in row));
   }
   return [];
 }
 
-function createMockPreparedQuery(handler: MockHandler, query: Query, capturedConfig: CapturedConfig | undefined) {
+// Mirrors drizzle's internal orderSelectedFields: nested field objects become path/field pairs
+function flattenSelection(fields: Record<string, unknown>, path: string[] = []): SelectedField[] {
+  const result: SelectedField[] = [];
+  for (const [key, field] of Object.entries(fields)) {
+    const fieldPath = [...path, key];
+    if (is(field, Column) || is(field, SQL) || is(field, SQL.Aliased)) {
+      result.push({ path: fieldPath, field });
+    } else if (is(field, Table)) {
+      result.push(...flattenSelection(getTableColumns(field), fieldPath));
+    } else if (typeof field === "object" && field !== null) {
+      result.push(...flattenSelection(field as Record<string, unknown>, fieldPath));
+    }
+  }
+  return result;
+}
+
+// A limit or offset; placeholders are resolved when the prepared query runs
+function toCount(value: unknown): number | Placeholder | undefined {
+  return typeof value === "number" || is(value, Placeholder) ? value : undefined;
+}
+
+function captureBuildConfig(operation: string, config: any): CapturedConfig {
+  const table = config.table;
+  const captured: CapturedConfig = {
+    operation,
+    tableName: table[TableName],
+    tableSchema: table[TableSchema],
+    columnKeys: extractColumnKeys(operation, config),
+    table,
+    where: config.where,
+  };
+  if (operation === "insert" && Array.isArray(config.values)) {
+    captured.values = config.values.map(unwrapParams);
+  }
+  if (operation === "insert" && (config.onConflict || config.ignore)) {
+    captured.onConflict = true;
+  }
+  if (operation === "update" && config.set) {
+    captured.set = unwrapParams(config.set);
+  }
+  if (operation === "select") {
+    if (config.fields) captured.selection = flattenSelection(config.fields);
+    captured.joins = config.joins;
+    captured.orderBy = config.orderBy;
+    captured.limit = toCount(config.limit);
+    captured.offset = toCount(config.offset);
+  } else if (config.returning) {
+    captured.selection = config.returning;
+  }
+  return captured;
+}
+
+function captureRelationalConfig(mode: string | undefined, config: any, render: RenderSql): CapturedConfig {
+  const table = config.table;
+  const operation = mode === "first" ? "findFirst" : "findMany";
+  const queryConfig = config.queryConfig === true ? {} : config.queryConfig ?? {};
+  const columns = getTableColumns(table);
+
+  const where = typeof queryConfig.where === "function"
+    ? queryConfig.where(columns, getOperators())
+    : queryConfig.where;
+
+  let orderBy = typeof queryConfig.orderBy === "function"
+    ? queryConfig.orderBy(columns, getOrderByOperators())
+    : queryConfig.orderBy;
+  if (orderBy !== undefined && !Array.isArray(orderBy)) orderBy = [orderBy];
+
+  return {
+    operation,
+    tableName: table[TableName],
+    tableSchema: table[TableSchema],
+    columnKeys: [],
+    table,
+    where,
+    orderBy,
+    limit: toCount(queryConfig.limit),
+    offset: toCount(queryConfig.offset),
+    relational: describeRelationalQuery(config, config.tableConfig, queryConfig, render, operation),
+    relationalQuery: {
+      schema: config.schema,
+      tableNamesMap: config.tableNamesMap,
+      tableConfig: config.tableConfig,
+      queryConfig,
+    },
+  };
+}
+
+/** What drizzle handed to session.prepareQuery besides the SQL, kept for rawDriverRows. */
+interface ResultMapping {
+  fields?: SelectedField[];
+  customResultMapper?: (rows: unknown[][]) => unknown;
+  relationalSelection?: RelationalSelectionItem[];
+}
+
+function createMockPreparedQuery(
+  handler: MockHandler,
+  query: Query,
+  capturedConfig: CapturedConfig | undefined,
+  transactionPath: number[],
+  relationalSelection: RelationalSelectionItem[] | undefined,
+  resultMapping: ResultMapping | undefined
+) {
+  // SQLite's .values() hands back driver arrays untouched, so only "all" and "get" decode rows
+  const run = (placeholderValues: Record<string, unknown> | undefined, mode: "all" | "get" | "values"): Promise<unknown> => {
+    const hasPlaceholders = placeholderValues && Object.keys(placeholderValues).length > 0;
+    const params = hasPlaceholders
+      ? fillPlaceholders(query.params, placeholderValues)
+      : query.params;
+    const config = hasPlaceholders && capturedConfig
+      ? { ...capturedConfig, placeholderValues }
+      : capturedConfig;
+    const decodeRows = resultMapping && mode !== "values"
+      ? createRowDecoder({ ...resultMapping, joinsNotNullableMap: () => pq.joinsNotNullableMap, single: mode === "get" })
+      : undefined;
+    return handler.handle(query.sql, params, config, { transactionPath, decodeRows, relationalSelection, single: mode === "get" });
+  };
+
   const pq = {
     joinsNotNullableMap: undefined as Record<string, boolean> | undefined,
 
     async execute(
       placeholderValues?: Record<string, unknown>
     ): Promise<unknown> {
-      const params =
-        placeholderValues && Object.keys(placeholderValues).length > 0
-          ? fillPlaceholders(query.params, placeholderValues)
-          : query.params;
-      return handler.handle(query.sql, params, capturedConfig);
+      return run(placeholderValues, "all");
     },
 
     setToken() {
@@ -74,11 +207,11 @@ function createMockPreparedQuery(handler: MockHandler, query: Query, capturedCon
     },
 
     async get(placeholderValues?: Record<string, unknown>): Promise<unknown> {
-      return pq.execute(placeholderValues);
+      return run(placeholderValues, "get");
     },
 
     async values(placeholderValues?: Record<string, unknown>): Promise<unknown> {
-      return pq.execute(placeholderValues);
+      return run(placeholderValues, "values");
     },
 
     mapRunResult(response: unknown): unknown {
@@ -96,58 +229,57 @@ function createMockPreparedQuery(handler: MockHandler, query: Query, capturedCon
   return pq;
 }
 
-export function mockDatabase<TDb>(db: TDb): MockController<TDb> {
-  const handler = new MockHandler();
+export function mockDatabase<TDb, const TOptions extends MockDatabaseOptions = {}>(
+  db: TDb,
+  options: TOptions = {} as TOptions
+): MockController<TDb, TOptions extends { rawDriverRows: true } ? true : false> {
   const dbAny = db as any;
   const session = dbAny.session;
   const dialect = dbAny.dialect;
+  const dialectName = detectDialect(dialect);
+  const handler = new MockHandler(options, createSqlNormalizer(dialectName), detectDriver(session, dialectName));
 
   // Capture the config from dialect build methods (synchronous, no race condition)
   let lastCapturedConfig: CapturedConfig | undefined;
+  let lastRelationalSelection: RelationalSelectionItem[] | undefined;
   let lastRelationalMode: string | undefined;
-  let insideRelationalBuild = false;
+  let relationalDepth = 0;
+  const renderSql: RenderSql = (expr) => serializeSqlFragment(dialect, handler.normalizer, expr);
 
   for (const [method, operation] of Object.entries(operationByBuildMethod)) {
     if (typeof dialect[method] === "function") {
       const original = dialect[method].bind(dialect);
       dialect[method] = (config: any) => {
         // buildRelationalQueryWithoutPK calls buildSelectQuery internally — don't overwrite
-        if (!insideRelationalBuild) {
-          const table = config.table;
-          if (table) {
-            lastCapturedConfig = {
-              operation,
-              tableName: table[TableName],
-              tableSchema: table[TableSchema],
-              columnKeys: extractColumnKeys(operation, config),
-            };
-          }
+        if (relationalDepth === 0 && config.table) {
+          lastCapturedConfig = captureBuildConfig(operation, config);
         }
         return original(config);
       };
     }
   }
 
-  // Wrap buildRelationalQueryWithoutPK for relational query structural matching
-  if (typeof dialect.buildRelationalQueryWithoutPK === "function") {
-    const original = dialect.buildRelationalQueryWithoutPK.bind(dialect);
-    dialect.buildRelationalQueryWithoutPK = (config: any) => {
-      const table = config.table;
-      if (table) {
+  // Wrap the relational builders for relational query structural matching. Postgres uses
+  // buildRelationalQueryWithoutPK; MySQL and SQLite use buildRelationalQuery (or the
+  // planetscale variant). They recurse for nested `with` relations, so only the outermost
+  // call is captured.
+  for (const method of ["buildRelationalQueryWithoutPK", "buildRelationalQuery", "buildRelationalQueryWithoutLateralSubqueries"]) {
+    if (typeof dialect[method] !== "function") continue;
+    const original = dialect[method].bind(dialect);
+    dialect[method] = (config: any) => {
+      const outermost = relationalDepth === 0 && config.table;
+      if (outermost) {
         const mode = lastRelationalMode;
         lastRelationalMode = undefined;
-        lastCapturedConfig = {
-          operation: mode === "first" ? "findFirst" : "findMany",
-          tableName: table[TableName],
-          tableSchema: table[TableSchema],
-          columnKeys: [],
-        };
+        lastCapturedConfig = captureRelationalConfig(mode, config, renderSql);
       }
-      insideRelationalBuild = true;
+      relationalDepth++;
       try {
-        return original(config);
+        const built = original(config);
+        if (outermost) lastRelationalSelection = built.selection;
+        return built;
       } finally {
-        insideRelationalBuild = false;
+        relationalDepth--;
       }
     };
   }
@@ -156,34 +288,78 @@ export function mockDatabase<TDb>(db: TDb): MockController<TDb> {
   if (dbAny.query) {
     for (const key of Object.keys(dbAny.query)) {
       const builder = dbAny.query[key];
+      // Not bound: transactions reuse these builders with their own session as `this`
       if (typeof builder?.findFirst === "function") {
-        const origFirst = builder.findFirst.bind(builder);
-        builder.findFirst = (config?: any) => {
+        const origFirst = builder.findFirst;
+        builder.findFirst = function (this: any, config?: any) {
           lastRelationalMode = "first";
-          return origFirst(config);
+          return origFirst.call(this, config);
         };
       }
       if (typeof builder?.findMany === "function") {
-        const origMany = builder.findMany.bind(builder);
-        builder.findMany = (config?: any) => {
+        const origMany = builder.findMany;
+        builder.findMany = function (this: any, config?: any) {
           lastRelationalMode = "many";
-          return origMany(config);
+          return origMany.call(this, config);
         };
       }
     }
   }
 
-  session.prepareQuery = (query: Query) => {
+  // Dialects differ in where the relational result mapper sits in prepareQuery's arguments,
+  // but it is the only function among them
+  const prepareQueryFor = (transactionPath: number[]) => (query: Query, fields?: SelectedField[], ...rest: unknown[]) => {
     const config = lastCapturedConfig;
+    const relationalSelection = lastRelationalSelection;
     lastCapturedConfig = undefined;
-    return createMockPreparedQuery(handler, query, config);
+    lastRelationalSelection = undefined;
+    const customResultMapper = rest.find((arg) => typeof arg === "function") as ResultMapping["customResultMapper"];
+    const resultMapping = options.rawDriverRows ? { fields, customResultMapper, relationalSelection } : undefined;
+    return createMockPreparedQuery(handler, query, config, transactionPath, relationalSelection, resultMapping);
   };
 
-  session.transaction = async (
+  session.prepareQuery = prepareQueryFor([]);
+
+  let transactionCount = 0;
+
+  // Each transaction gets its own session so its queries are recorded with its id. tx.transaction()
+  // goes through that session too and nests as a savepoint: it gets an id of its own, and a
+  // rollback inside it only ends the savepoint, while errors propagate to the enclosing level.
+  // In stateful mode, rolling back a transaction or savepoint undoes its writes to the store.
+  const runTransaction = async (
+    parentPath: number[],
     callback: (tx: any) => Promise<unknown>,
-    _config?: unknown
-  ) => {
+    config?: TransactionConfig
+  ): Promise<unknown> => {
+    const savepoint = parentPath.length > 0;
+    // Failures from mock.failNextTransaction() and mock.onTransaction() apply to top-level transactions.
+    // A failed begin starts no transaction, so it records no events and takes no id.
+    const beginFailure = savepoint ? undefined : handler.takeTransactionFailure("begin", config);
+    if (beginFailure !== undefined) throw beginFailure;
+
+    const transactionPath = [...parentPath, ++transactionCount];
+    const record = (type: TransactionEventType, details: Partial<TransactionEvent> = {}) =>
+      handler.recordTransactionEvent({
+        type,
+        transactionId: transactionPath[transactionPath.length - 1],
+        transactionPath,
+        timestamp: Date.now(),
+        ...details,
+      });
+    record(savepoint ? "savepoint" : "begin", !savepoint && config ? { config: { ...config } } : {});
+    const snapshot = handler.store?.snapshot();
+
+    const txSession = Object.create(session, {
+      prepareQuery: { value: prepareQueryFor(transactionPath), writable: true, configurable: true },
+      transaction: {
+        value: (nested: (tx: any) => Promise<unknown>, nestedConfig?: TransactionConfig) =>
+          runTransaction(transactionPath, nested, nestedConfig),
+        writable: true,
+        configurable: true,
+      },
+    });
     const tx = Object.create(dbAny, {
+      session: { value: txSession, writable: true, configurable: true },
       rollback: {
         value() {
           throw new TransactionRollbackError();
@@ -192,16 +368,62 @@ export function mockDatabase<TDb>(db: TDb): MockController<TDb> {
         configurable: true,
       },
     });
+    if (dbAny.query) {
+      const query: Record<string, unknown> = {};
+      for (const [key, builder] of Object.entries(dbAny.query)) {
+        query[key] = Object.create(builder as object, {
+          session: { value: txSession, writable: true, configurable: true },
+        });
+      }
+      tx.query = query;
+    }
 
+    const rollbackType = savepoint ? "rollbackToSavepoint" : "rollback";
     try {
-      return await callback(tx);
+      const result = await callback(tx);
+      const commitFailure = savepoint ? undefined : handler.takeTransactionFailure("commit", config);
+      if (commitFailure !== undefined) throw commitFailure;
+      record(savepoint ? "release" : "commit");
+      return result;
     } catch (error) {
+      if (snapshot) handler.store!.restore(snapshot);
       if (error instanceof TransactionRollbackError) {
+        record(rollbackType, { cause: "rollback" });
         return undefined;
       }
+      record(rollbackType, { cause: "error", error });
       throw error;
     }
   };
 
-  return new MockController(handler, db);
+  session.transaction = (callback: (tx: any) => Promise<unknown>, config?: TransactionConfig) =>
+    runTransaction([], callback, config);
+
+  const controller = new MockController<TDb, TOptions extends { rawDriverRows: true } ? true : false>(handler, db);
+  if (options.strict) {
+    registerStrictVerification(controller);
+  }
+  return controller;
+}
+
+// Runs mock.verify() once the current test finishes. When mockDatabase is called while a
+// test (or its beforeEach) is running, the check is tied to that test; when it is called
+// while a suite is being collected, it runs after each test in the suite. onTestFinished only
+// exists from vitest 1.3; it's read off the namespace because a named import would keep the
+// library from loading on older versions, which fall back to afterEach.
+function registerStrictVerification(controller: MockController<any, boolean>): void {
+  const onTestFinished: typeof vitest.onTestFinished | undefined = vitest.onTestFinished;
+  if (onTestFinished) {
+    try {
+      onTestFinished((context) => {
+        // A failing test already reports its own error; don't bury it under unused-mock noise
+        if (context.task.result?.state === "fail") return;
+        controller.verify();
+      });
+      return;
+    } catch {
+      // Not inside a running test
+    }
+  }
+  vitest.afterEach(() => controller.verify());
 }
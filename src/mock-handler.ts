@@ -1,32 +1,145 @@
-import type { CapturedConfig, MockEntry, MockMatcher, RecordedCall, SqlFragment } from "./types.js";
+import type { RelationalSelectionItem } from "./driver-rows.js";
+import { projectFixtureRows } from "./fixture-projection.js";
+import { missingJoins, readJoinedRows } from "./join-rows.js";
+import { formatMatcher, formatUnmatchedMessage } from "./match-diagnostics.js";
+import { relationalConstraintCount, relationalMismatches } from "./relational-matching.js";
+import { readRelationalFixtures } from "./relational-rows.js";
+import { toQueryError } from "./db-errors.js";
+import { createSqlNormalizer, normalizeSql, type SqlNormalizer } from "./sql-normalization.js";
+import { writeResult, type DriverName } from "./result-shapes.js";
+import { validateResponse } from "./response-validation.js";
+import { readRows, TableStore } from "./table-store.js";
+import { emptyResult, getDefaultUnmatchedBehavior, type UnmatchedBehavior } from "./unmatched.js";
+import { matchesValue, matchesValueSubset } from "./value-matching.js";
+import type { CapturedConfig, MockDatabaseOptions, MockEntry, MockMatcher, MockResponse, RecordedCall, SqlFragment, TransactionConfig, TransactionEvent, TransactionFailure, TransactionFailureStage } from "./types.js";
+
+/** Per-query details the prepared query passes along with its SQL. */
+export interface QueryContext {
+  // Ids of the enclosing transaction and its savepoints, outermost first
+  transactionPath?: number[];
+  // Set with rawDriverRows: turns driver-level rows from a mock into drizzle's result shape
+  decodeRows?: (response: unknown) => unknown;
+  // What a relational query loads, from the dialect's relational query builder
+  relationalSelection?: RelationalSelectionItem[];
+  // SQLite's .get(): the query returns its first row rather than a list
+  single?: boolean;
+}
 
 export class MockHandler {
   private mocks: MockEntry[] = [];
   private recordedCalls: RecordedCall[] = [];
+  private recordedTransactionEvents: TransactionEvent[] = [];
+  private transactionFailures: TransactionFailure[] = [];
+  readonly store?: TableStore;
+  // Falls back to the global default when unset
+  unmatchedBehavior?: UnmatchedBehavior;
+  private readonly projectSelections: boolean;
+  private readonly validateResponses: boolean;
+
+  constructor(
+    options: MockDatabaseOptions = {},
+    readonly normalizer: SqlNormalizer = createSqlNormalizer("postgres"),
+    readonly driver: DriverName = "node-postgres",
+  ) {
+    if (options.stateful) {
+      this.store = new TableStore(driver);
+    }
+    this.unmatchedBehavior = options.unmatched;
+    this.projectSelections = options.projectSelections ?? false;
+    this.validateResponses = options.validateResponses ?? false;
+  }
 
   get calls(): RecordedCall[] {
     return this.recordedCalls;
   }
 
+  get transactionEvents(): TransactionEvent[] {
+    return this.recordedTransactionEvents;
+  }
+
+  recordTransactionEvent(event: TransactionEvent): void {
+    this.recordedTransactionEvents.push(event);
+  }
+
   register(entry: MockEntry): void {
     this.mocks.push(entry);
   }
 
-  async handle(sql: string, params: unknown[], capturedConfig?: CapturedConfig): Promise<unknown> {
+  registerTransactionFailure(failure: TransactionFailure): void {
+    this.transactionFailures.push(failure);
+  }
+
+  // The error for this stage of a transaction begun with `config`, built for the driver and
+  // wrapped like an error from the begin or commit statement. once() failures go first and are
+  // used up in the order they were registered; otherwise the newest persistent failure applies.
+  takeTransactionFailure(at: TransactionFailureStage, config?: TransactionConfig): unknown {
+    const applies = (failure: TransactionFailure) =>
+      failure.at === at &&
+      (!failure.config || matchesValueSubset(failure.config as Record<string, unknown>, { ...config }));
+    const next = this.transactionFailures.findIndex((failure) => failure.once && applies(failure));
+    if (next >= 0) {
+      const [failure] = this.transactionFailures.splice(next, 1);
+      return toQueryError(failure.error, this.driver, at, []);
+    }
+    for (let i = this.transactionFailures.length - 1; i >= 0; i--) {
+      const failure = this.transactionFailures[i];
+      if (applies(failure)) return toQueryError(failure.error, this.driver, at, []);
+    }
+    return undefined;
+  }
+
+  async handle(
+    sql: string,
+    params: unknown[],
+    capturedConfig?: CapturedConfig,
+    context: QueryContext = {}
+  ): Promise<unknown> {
     const normalizedSql = normalizeSql(sql);
 
-    this.recordedCalls.push({
+    const call: RecordedCall = {
       sql: normalizedSql,
       params,
       timestamp: Date.now(),
-    });
+      outcome: "pending",
+    };
+    if (capturedConfig) {
+      call.operation = capturedConfig.operation;
+      call.tableName = capturedConfig.tableName;
+      call.tableSchema = capturedConfig.tableSchema;
+      call.columnKeys = capturedConfig.columnKeys;
+      if (capturedConfig.values) call.values = capturedConfig.values;
+      if (capturedConfig.set) call.set = capturedConfig.set;
+    }
+    if (context.transactionPath?.length) {
+      call.transactionId = context.transactionPath[context.transactionPath.length - 1];
+      call.transactionPath = context.transactionPath;
+    }
+    this.recordedCalls.push(call);
+
+    try {
+      const result = await this.respond(call, capturedConfig, context);
+      if (call.outcome === "pending") call.outcome = "data";
+      call.result = result;
+      return result;
+    } catch (error) {
+      if (call.outcome === "pending") call.outcome = "threw";
+      call.error = error;
+      throw error;
+    }
+  }
+
+  private async respond(call: RecordedCall, capturedConfig?: CapturedConfig, context: QueryContext = {}): Promise<unknown> {
+    const { sql, params } = call;
+    const canonicalSql = this.normalizer.canonicalize(sql);
+    const fragmentForm = this.normalizer.fragmentForm(sql);
 
     let bestMatch: { mock: MockEntry; specificity: number; index: number } | undefined;
 
     for (let i = this.mocks.length - 1; i >= 0; i--) {
       const mock = this.mocks[i];
       if (mock.consumed) continue;
-      if (this.matches(mock.matcher, normalizedSql, params, capturedConfig)) {
+      if (!inScope(mock.matcher, context)) continue;
+      if (this.matches(mock.matcher, { sql, canonicalSql, fragmentForm }, params, capturedConfig)) {
         const specificity = matcherSpecificity(mock.matcher);
         if (!bestMatch || specificity > bestMatch.specificity) {
           bestMatch = { mock, specificity, index: i };
@@ -36,37 +149,54 @@ export class MockHandler {
 
     if (bestMatch) {
       const { mock } = bestMatch;
-      mock.handle.mock.calls.push([normalizedSql, params]);
+      mock.handle.mock.calls.push([sql, params]);
+      call.entry = mock;
+      call.handle = mock.handle;
 
       if (mock.responseQueue?.length) {
         const queued = mock.responseQueue.shift()!;
         if (mock.responseQueue.length === 0 && mock.once) {
           mock.consumed = true;
         }
-        if (queued.type === "function") {
-          return queued.fn(normalizedSql, params);
-        }
-        return queued.data;
+        return this.respondWith(mock, queued, call, capturedConfig, context);
       }
 
       if (mock.once) mock.consumed = true;
-      if (mock.error) throw mock.error;
-      return this.resolveResponse(mock, normalizedSql, params);
+      if (mock.error) throw toQueryError(mock.error, this.driver, sql, params);
+      return this.respondWith(mock, mock.response, call, capturedConfig, context);
+    }
+
+    if (this.store && capturedConfig) {
+      try {
+        return firstRowIf(context.single, this.store.execute(capturedConfig));
+      } catch (error) {
+        throw toQueryError(error, this.driver, sql, params);
+      }
     }
 
-    const registered =
-      this.mocks.length > 0
-        ? `\n\nRegistered mocks:\n${this.mocks.map((m) => `  - ${formatMatcher(m.matcher)}`).join("\n")}`
-        : "";
+    call.outcome = "unmatched";
+    const behavior = this.unmatchedBehavior ?? getDefaultUnmatchedBehavior();
+    if (typeof behavior === "function") {
+      return behavior(call);
+    }
 
-    throw new Error(
-      `No mock registered for query:\n  SQL: ${normalizedSql}\n  Params: ${JSON.stringify(params)}${registered}`
+    const message = formatUnmatchedMessage(
+      { sql, canonicalSql, fragmentForm, params, config: capturedConfig, inTransaction: !!context.transactionPath?.length },
+      this.mocks,
+      this.normalizer
     );
+    if (behavior === "throw") {
+      throw new Error(message);
+    }
+    if (behavior === "warn") {
+      console.warn(message);
+    }
+    return emptyResult(this.driver, capturedConfig, context.single);
   }
 
   private matches(
     matcher: MockMatcher,
-    sql: string,
+    { sql, canonicalSql, fragmentForm }: { sql: string; canonicalSql: string; fragmentForm: string },
     params: unknown[],
     capturedConfig?: CapturedConfig
   ): boolean {
@@ -75,7 +205,7 @@ export class MockHandler {
         const sqlMatch = normalizeSql(matcher.sql) === sql;
         if (!sqlMatch) return false;
         if (matcher.params !== undefined) {
-          return paramsEqual(matcher.params, params);
+          return paramsMatch(matcher.params, params);
         }
         return true;
       }
@@ -83,23 +213,24 @@ export class MockHandler {
         const prefixMatch = sql.startsWith(normalizeSql(matcher.sql));
         if (!prefixMatch) return false;
         if (matcher.params !== undefined) {
-          return paramsEqual(matcher.params, params);
+          return paramsMatch(matcher.params, params);
         }
         return true;
       }
       case "sql-pattern": {
-        const patternMatch = matcher.pattern.test(sql);
+        // Raw SQL first, then the canonical form so Postgres-style patterns work on every dialect
+        const patternMatch = matcher.pattern.test(sql) || matcher.pattern.test(canonicalSql);
         if (!patternMatch) return false;
         if (matcher.params !== undefined) {
-          return paramsEqual(matcher.params, params);
+          return paramsMatch(matcher.params, params);
         }
         return true;
       }
       case "sql-contains": {
-        const containsMatch = sql.includes(matcher.substring);
+        const containsMatch = canonicalSql.includes(this.normalizer.canonicalizePattern(matcher.substring));
         if (!containsMatch) return false;
         if (matcher.params !== undefined) {
-          return paramsEqual(matcher.params, params);
+          return paramsMatch(matcher.params, params);
         }
         return true;
       }
@@ -113,9 +244,24 @@ export class MockHandler {
             if (!capturedConfig.columnKeys.includes(key)) return false;
           }
         }
+        if (matcher.rowCount !== undefined && (capturedConfig.values?.length ?? 0) !== matcher.rowCount) {
+          return false;
+        }
+        if (matcher.values && !writtenValuesMatch(matcher.values, capturedConfig)) {
+          return false;
+        }
+        if (matcher.joins && missingJoins(matcher.joins, capturedConfig).length > 0) {
+          return false;
+        }
+        if (matcher.returning && !capturedConfig.selection) {
+          return false;
+        }
+        if (matcher.relational && relationalMismatches(matcher.relational, capturedConfig.relational ?? {}).length > 0) {
+          return false;
+        }
         if (matcher.sqlFragments) {
           for (const fragment of matcher.sqlFragments) {
-            if (!sqlFragmentMatches(fragment, sql, params)) return false;
+            if (!sqlFragmentMatches(fragment, fragmentForm, params)) return false;
           }
         }
         return true;
@@ -123,55 +269,129 @@ export class MockHandler {
     }
   }
 
-  private async resolveResponse(
+  private async respondWith(
     mock: MockEntry,
+    response: MockResponse,
+    call: RecordedCall,
+    capturedConfig: CapturedConfig | undefined,
+    context: QueryContext
+  ): Promise<unknown> {
+    const { sql, params } = call;
+    const result = await this.resolveResponse(response, sql, params, capturedConfig, context);
+    if (this.validateResponses && capturedConfig && response.type !== "write") {
+      const problems = validateResponse(result, capturedConfig, context.relationalSelection);
+      if (problems.length > 0) {
+        throw new Error(
+          `Mock response doesn't match the schema:\n  Mock: ${formatMatcher(mock.matcher)}\n  SQL: ${sql}\n` +
+          problems.map((problem) => `  - ${problem}`).join("\n")
+        );
+      }
+    }
+    return result;
+  }
+
+  private async resolveResponse(
+    response: MockResponse,
     sql: string,
-    params: unknown[]
+    params: unknown[],
+    capturedConfig: CapturedConfig | undefined,
+    context: QueryContext
   ): Promise<unknown> {
-    if (mock.response.type === "function") {
-      return mock.response.fn(sql, params);
+    const shapeRows = this.shapeRows(capturedConfig, context);
+    if (response.type === "function") {
+      return shapeRows(await response.fn(sql, params, capturedConfig));
     }
-    return mock.response.data;
+    if (response.type === "rows") {
+      if (!capturedConfig) {
+        throw new Error(`Cannot filter .rows() for a query without a captured config:\n  SQL: ${sql}`);
+      }
+      if (capturedConfig.relationalQuery) {
+        return readRelationalFixtures(response.rows, capturedConfig, this.driver);
+      }
+      return firstRowIf(context.single, Array.isArray(response.rows)
+        ? readRows(response.rows, capturedConfig, this.driver)
+        : readJoinedRows(response.rows, capturedConfig, this.driver));
+    }
+    if (response.type === "write") {
+      if (capturedConfig?.selection) {
+        throw new Error(
+          `.affects() and .insertId() mock a write result, but this query uses .returning(). Respond with rows instead:\n  SQL: ${sql}`
+        );
+      }
+      return writeResult(this.driver, {
+        operation: capturedConfig?.operation ?? "update",
+        affected: response.affected ?? capturedConfig?.values?.length ?? 0,
+        insertId: response.insertId,
+      });
+    }
+    return shapeRows(response.data);
+  }
+
+  // Turns the rows a mock responded with into the query's result: decoded from driver values
+  // with rawDriverRows, or projected onto a select's fields with projectSelections
+  private shapeRows(capturedConfig: CapturedConfig | undefined, context: QueryContext): (response: unknown) => unknown {
+    if (context.decodeRows) return context.decodeRows;
+    const selection = capturedConfig?.operation === "select" ? capturedConfig.selection : undefined;
+    if (this.projectSelections && selection) {
+      return (response) => projectFixtureRows(response, selection);
+    }
+    return (response) => response;
+  }
+
+  // Describes registered mocks that weren't used as expected. With `includeNeverCalled` false,
+  // only leftover respondOnce() responses and unconsumed once() mocks are reported.
+  findUnusedMocks(includeNeverCalled: boolean): string[] {
+    const problems: string[] = [];
+    for (const mock of this.mocks) {
+      const description = formatMatcher(mock.matcher);
+      const leftover = mock.responseQueue?.length ?? 0;
+      if (leftover > 0) {
+        problems.push(`${leftover} unused respondOnce() ${leftover === 1 ? "response" : "responses"}: ${description}`);
+      } else if (mock.once && !mock.consumed) {
+        problems.push(`once() mock never consumed: ${description}`);
+      } else if (includeNeverCalled && mock.handle.mock.calls.length === 0) {
+        problems.push(`never called: ${description}`);
+      }
+    }
+    return problems;
   }
 
   reset(): void {
     this.mocks = [];
+    this.transactionFailures = [];
     this.recordedCalls = [];
+    this.recordedTransactionEvents = [];
+    this.store?.reset();
   }
 
   resetCalls(): void {
     this.recordedCalls = [];
+    this.recordedTransactionEvents = [];
   }
 
   resetMocks(): void {
     this.mocks = [];
+    this.transactionFailures = [];
   }
 }
 
-export function normalizeSql(sql: string): string {
-  return sql.replace(/\s+/g, " ").trim();
-}
-
-function paramsEqual(a: unknown[], b: unknown[]): boolean {
-  if (a.length !== b.length) return false;
-  for (let i = 0; i < a.length; i++) {
-    if (a[i] !== b[i]) return false;
-  }
-  return true;
+// Rows read from the store or from .rows() fixtures come as a list; SQLite's .get() wants the first
+function firstRowIf(single: boolean | undefined, result: unknown): unknown {
+  return single && Array.isArray(result) ? result[0] : result;
 }
 
-// Strip table/alias prefixes: "table"."col" → "col"
-function stripTablePrefixes(sql: string): string {
-  return sql.replace(/"[^"]+"\."([^"]+)"/g, '"$1"');
+function inScope(matcher: MockMatcher, context: QueryContext): boolean {
+  return matcher.inTransaction === undefined || matcher.inTransaction === !!context.transactionPath?.length;
 }
 
-// Replace positional params ($1, $2, etc.) with ?
-function normalizeParams(sql: string): string {
-  return sql.replace(/\$\d+/g, "?");
+// Expected params may contain anything() or asymmetric matchers; other values compare deeply
+function paramsMatch(expected: unknown[], actual: unknown[]): boolean {
+  if (expected.length !== actual.length) return false;
+  return expected.every((value, i) => matchesValue(value, actual[i]));
 }
 
-function sqlFragmentMatches(fragment: SqlFragment, actualSql: string, actualParams: unknown[]): boolean {
-  const normalizedActual = normalizeParams(stripTablePrefixes(actualSql));
+// `normalizedActual` is the executed SQL in the normalizer's fragment form
+function sqlFragmentMatches(fragment: SqlFragment, normalizedActual: string, actualParams: unknown[]): boolean {
   const normalizedFragment = fragment.normalizedSql;
 
   const matchIndex = normalizedActual.indexOf(normalizedFragment);
@@ -185,38 +405,38 @@ function sqlFragmentMatches(fragment: SqlFragment, actualSql: string, actualPara
 
   // Check that actual params at the right positions match fragment params
   for (let i = 0; i < fragment.params.length; i++) {
-    if (actualParams[paramOffset + i] !== fragment.params[i]) return false;
+    if (!matchesValue(fragment.params[i], actualParams[paramOffset + i])) return false;
   }
 
   return true;
 }
 
+// Inserts match only when every inserted row carries the expected values
+function writtenValuesMatch(expected: Record<string, unknown>, config: CapturedConfig): boolean {
+  const rows = config.operation === "insert" ? config.values ?? [] : config.set ? [config.set] : [];
+  return rows.length > 0 && rows.every((row) => matchesValueSubset(expected, row));
+}
+
+// A transaction scope narrows a mock just enough to win over the same mock without one
 function matcherSpecificity(matcher: MockMatcher): number {
-  switch (matcher.type) {
-    case "sql-exact":
-      return matcher.params !== undefined ? 5 : 4;
-    case "sql-starts-with":
-      return matcher.params !== undefined ? 3 : 2;
-    case "structural":
-      if (matcher.sqlFragments) return 1.75;
-      return matcher.columnKeys ? 1.5 : 1.25;
-    case "sql-pattern":
-    case "sql-contains":
-      return 1;
-  }
+  return baseSpecificity(matcher) + (matcher.inTransaction !== undefined ? 0.001 : 0);
 }
 
-function formatMatcher(matcher: MockMatcher): string {
+function baseSpecificity(matcher: MockMatcher): number {
   switch (matcher.type) {
     case "sql-exact":
-      return `exact: "${matcher.sql}"${matcher.params ? ` params: ${JSON.stringify(matcher.params)}` : ""}`;
+      return matcher.params !== undefined ? 5 : 4;
     case "sql-starts-with":
-      return `partial: "${matcher.sql}"${matcher.params ? ` params: ${JSON.stringify(matcher.params)}` : ""}`;
+      return matcher.params !== undefined ? 3 : 2;
+    case "structural": {
+      const base = matcher.values ? 1.8 : matcher.sqlFragments ? 1.75 : matcher.columnKeys ? 1.5 : 1.25;
+      // Row counts, .returning(), joins and relational clauses narrow a matcher without outranking the next level
+      const narrowing = (matcher.rowCount !== undefined ? 1 : 0) + (matcher.returning ? 1 : 0) + (matcher.joins?.length ?? 0) +
+        (matcher.relational ? relationalConstraintCount(matcher.relational) : 0);
+      return base + 0.01 * narrowing;
+    }
     case "sql-pattern":
-      return `pattern: ${matcher.pattern}`;
     case "sql-contains":
-      return `contains: "${matcher.substring}"`;
-    case "structural":
-      return `structural: ${matcher.operation} on "${matcher.tableName}"${matcher.columnKeys ? ` columns: [${matcher.columnKeys.join(", ")}]` : ""}`;
+      return matcher.params !== undefined ? 1.1 : 1;
   }
 }
@@ -0,0 +1,207 @@
+// ABOUTME: Describes a relational query's config (with, columns, where, orderBy, limit, offset) for matching.
+// ABOUTME: Compares what a findFirst/findMany mock requires with what the query asked for.
+
+import { getOperators, getOrderByOperators, getTableUniqueName, sql, SQL } from "drizzle-orm";
+import { isAnything } from "./anything.js";
+import { formatValue, isAsymmetricMatcher, matchesValue } from "./value-matching.js";
+import type { RelationalShape, SqlFragment } from "./types.js";
+
+// Where drizzle's relational builders look up a table's columns and relations
+export interface RelationalSchema {
+  schema: Record<string, any>;
+  tableNamesMap: Record<string, string>;
+}
+
+// Renders a where or orderBy clause the way .containingSql() fragments are compared
+export type RenderSql = (expr: SQL) => SqlFragment;
+
+function isPresenceMatcher(value: unknown): boolean {
+  return isAnything(value) || isAsymmetricMatcher(value);
+}
+
+// Mirrors drizzle's column selection: `true` entries select only those, otherwise `false` ones are left out
+export function selectedColumns(tableConfig: any, columns: Record<string, boolean | undefined>): string[] {
+  const all = Object.keys(tableConfig.columns);
+  const given = Object.entries(columns).filter(([key, value]) => value !== undefined && key in tableConfig.columns);
+  if (given.length === 0) return all;
+  if (given.some(([, value]) => value === true)) {
+    return given.filter(([, value]) => value === true).map(([key]) => key);
+  }
+  return all.filter((key) => !given.some(([excluded]) => excluded === key));
+}
+
+function describeClause(value: unknown, render: RenderSql): true | SqlFragment | undefined {
+  if (value === undefined) return undefined;
+  if (isPresenceMatcher(value)) return true;
+  const items = Array.isArray(value) ? value : [value];
+  return render(sql.join(items, sql`, `));
+}
+
+function describeCount(value: unknown): true | number | undefined {
+  if (value === undefined) return undefined;
+  return typeof value === "number" ? value : true;
+}
+
+function describe(
+  relationalSchema: RelationalSchema,
+  tableConfig: any,
+  queryConfig: any,
+  render: RenderSql,
+  complete: boolean
+): RelationalShape {
+  const config = queryConfig === true ? {} : queryConfig ?? {};
+  const shape: RelationalShape = {};
+
+  if (config.columns || complete) {
+    shape.columns = selectedColumns(tableConfig, config.columns ?? {});
+  }
+  const relations = Object.entries(config.with ?? {}).filter(([, nested]) => !!nested);
+  if (relations.length > 0) {
+    shape.with = {};
+    for (const [key, nested] of relations) {
+      const relation = tableConfig.relations[key];
+      if (!relation) {
+        throw new Error(`Unknown relation "${key}" on table "${tableConfig.tsName}"`);
+      }
+      const relatedConfig = relationalSchema.schema[relationalSchema.tableNamesMap[getTableUniqueName(relation.referencedTable)]];
+      shape.with[key] = describe(relationalSchema, relatedConfig, nested, render, complete);
+    }
+  }
+
+  const where = typeof config.where === "function" ? config.where(tableConfig.columns, getOperators()) : config.where;
+  const orderBy = typeof config.orderBy === "function"
+    ? config.orderBy(tableConfig.columns, getOrderByOperators())
+    : config.orderBy;
+  const clauses = {
+    where: describeClause(where, render),
+    orderBy: describeClause(orderBy, render),
+    limit: describeCount(config.limit),
+    offset: describeCount(config.offset),
+  };
+  for (const [clause, value] of Object.entries(clauses)) {
+    if (value !== undefined) (shape as Record<string, unknown>)[clause] = value;
+  }
+  return shape;
+}
+
+// findFirst always runs with `limit: 1`, which says nothing about the query
+function withoutFirstLimit(shape: RelationalShape, operation: string): RelationalShape {
+  if (operation !== "findFirst") return shape;
+  const { limit: _limit, ...rest } = shape;
+  return rest;
+}
+
+/** What a relational query asks for; columns are always listed, defaulting to all of them. */
+export function describeRelationalQuery(
+  relationalSchema: RelationalSchema,
+  tableConfig: any,
+  queryConfig: unknown,
+  render: RenderSql,
+  operation: string
+): RelationalShape {
+  return withoutFirstLimit(describe(relationalSchema, tableConfig, queryConfig, render, true), operation);
+}
+
+/**
+ * What a findFirst/findMany mock requires, from a relational query config. Only what the config
+ * mentions is constrained; anything() or an asymmetric matcher as a clause requires it to be present.
+ */
+export function relationalConstraint(
+  relationalSchema: RelationalSchema,
+  tableConfig: any,
+  queryConfig: unknown,
+  render: RenderSql,
+  operation: string
+): RelationalShape | undefined {
+  const shape = withoutFirstLimit(describe(relationalSchema, tableConfig, queryConfig, render, false), operation);
+  return Object.keys(shape).length > 0 ? shape : undefined;
+}
+
+function fragmentsMatch(expected: SqlFragment, actual: SqlFragment): boolean {
+  return (
+    expected.normalizedSql === actual.normalizedSql &&
+    expected.params.length === actual.params.length &&
+    expected.params.every((value, i) => matchesValue(value, actual.params[i]))
+  );
+}
+
+function formatFragment(fragment: SqlFragment): string {
+  return fragment.params.length > 0 ? `${fragment.normalizedSql} ${formatValue(fragment.params)}` : fragment.normalizedSql;
+}
+
+const clauseNames = { where: "a where clause", orderBy: "an orderBy", limit: "a limit", offset: "an offset" };
+
+/** Why a relational query doesn't satisfy a mock's constraint; empty when it does. */
+export function relationalMismatches(expected: RelationalShape, actual: RelationalShape, path = ""): string[] {
+  const label = (clause: string) => (path ? `${path}.${clause}` : clause);
+  const reasons: string[] = [];
+
+  if (expected.columns) {
+    const actualColumns = actual.columns ?? [];
+    const same = expected.columns.length === actualColumns.length &&
+      expected.columns.every((key) => actualColumns.includes(key));
+    if (!same) {
+      reasons.push(`${label("columns")}: expected [${expected.columns.join(", ")}], got [${actualColumns.join(", ")}]`);
+    }
+  }
+
+  for (const clause of ["where", "orderBy", "limit", "offset"] as const) {
+    const wanted = expected[clause];
+    const given = actual[clause];
+    if (wanted === undefined) continue;
+    if (given === undefined) {
+      reasons.push(`${label(clause)}: expected ${clauseNames[clause]}, but the query has none`);
+      continue;
+    }
+    if (wanted === true) continue;
+    const matches = typeof wanted === "number"
+      ? wanted === given
+      : typeof given === "object" && fragmentsMatch(wanted, given);
+    if (!matches) {
+      reasons.push(`${label(clause)}: expected ${formatClause(wanted)}, got ${formatClause(given)}`);
+    }
+  }
+
+  for (const [key, nested] of Object.entries(expected.with ?? {})) {
+    const loaded = actual.with?.[key];
+    if (!loaded) {
+      reasons.push(`${label("with")}: expected the query to load "${key}"`);
+    } else {
+      reasons.push(...relationalMismatches(nested, loaded, label(`with.${key}`)));
+    }
+  }
+  return reasons;
+}
+
+function formatClause(value: true | number | SqlFragment): string {
+  if (value === true) return "any";
+  return typeof value === "number" ? String(value) : formatFragment(value);
+}
+
+/** Compact description of a constraint for mock listings, e.g. `with: [posts { columns: [id] }] limit: 10`. */
+export function formatRelationalShape(shape: RelationalShape): string {
+  const parts: string[] = [];
+  if (shape.columns) parts.push(`columns: [${shape.columns.join(", ")}]`);
+  const relations = Object.entries(shape.with ?? {}).map(([key, nested]) => {
+    const inner = formatRelationalShape(nested);
+    return inner ? `${key} { ${inner} }` : key;
+  });
+  if (relations.length > 0) parts.push(`with: [${relations.join(", ")}]`);
+  for (const clause of ["where", "orderBy", "limit", "offset"] as const) {
+    const value = shape[clause];
+    if (value !== undefined) parts.push(value === true ? clause : `${clause}: ${formatClause(value)}`);
+  }
+  return parts.join(" ");
+}
+
+/** How many things a constraint pins down, so more specific relational mocks win. */
+export function relationalConstraintCount(shape: RelationalShape): number {
+  let count = shape.columns ? 1 : 0;
+  for (const clause of ["where", "orderBy", "limit", "offset"] as const) {
+    if (shape[clause] !== undefined) count++;
+  }
+  for (const nested of Object.values(shape.with ?? {})) {
+    count += 1 + relationalConstraintCount(nested);
+  }
+  return count;
+}
@@ -0,0 +1,106 @@
+// ABOUTME: Composes findFirst/findMany results from per-table rows by following the schema's relations.
+// ABOUTME: Loads each `with` relation as one row or many, and applies every level's columns, where, orderBy and limits.
+
+import { getOperators, getOrderByOperators, getTableName, getTableUniqueName, is, normalizeRelation, One } from "drizzle-orm";
+import type { Table } from "drizzle-orm";
+import { columnResolver } from "./drizzle-internals.js";
+import { selectedColumns } from "./relational-matching.js";
+import type { DriverName } from "./result-shapes.js";
+import { compileCondition, compileOrdering, resolveCount, valuesEqual, type EvaluationContext } from "./sql-evaluator.js";
+import type { CapturedConfig, JoinFixtures, RelationalQuery } from "./types.js";
+
+type Row = Record<string, unknown>;
+
+// Rows of a table the query reads; `via` names the relation that loads it, if any
+type RowsFor = (table: Table, tsName: string, via?: string) => Row[];
+
+function loadLevel(
+  query: RelationalQuery,
+  table: Table,
+  tableConfig: any,
+  queryConfig: unknown,
+  candidates: Row[],
+  rowsFor: RowsFor,
+  evaluation: Omit<EvaluationContext, "resolveColumn">
+): Row[] {
+  const config: Record<string, any> = queryConfig === true ? {} : (queryConfig as Record<string, any>) ?? {};
+  const resolveColumn = columnResolver(table);
+  const context = { ...evaluation, resolveColumn };
+
+  const where = typeof config.where === "function" ? config.where(tableConfig.columns, getOperators()) : config.where;
+  let orderBy = typeof config.orderBy === "function"
+    ? config.orderBy(tableConfig.columns, getOrderByOperators())
+    : config.orderBy;
+  if (orderBy !== undefined && !Array.isArray(orderBy)) orderBy = [orderBy];
+
+  const predicate = compileCondition(where, context);
+  const ordering = compileOrdering(orderBy, context);
+  let rows = candidates.filter((row) => predicate(row));
+  if (ordering) rows = [...rows].sort(ordering);
+  const offset = resolveCount(config.offset, context) ?? 0;
+  const limit = resolveCount(config.limit, context);
+  rows = rows.slice(offset, limit !== undefined ? offset + limit : undefined);
+
+  const columns = selectedColumns(tableConfig, config.columns ?? {});
+  const relations = Object.entries(config.with ?? {}).filter(([, nested]) => !!nested);
+
+  return rows.map((row) => {
+    const result: Row = {};
+    for (const key of columns) {
+      if (key in row) result[key] = row[key];
+    }
+    for (const [key, nested] of relations) {
+      const relation = tableConfig.relations[key];
+      const relatedConfig = query.schema[query.tableNamesMap[getTableUniqueName(relation.referencedTable)]];
+      const { fields, references } = normalizeRelation(query.schema, query.tableNamesMap, relation);
+      const fieldKeys = fields.map(resolveColumn);
+      const referenceKeys = references.map(columnResolver(relation.referencedTable));
+
+      const linked = rowsFor(relation.referencedTable, relatedConfig.tsName, key).filter((related) =>
+        fieldKeys.every((fieldKey, i) => row[fieldKey] != null && valuesEqual(row[fieldKey], related[referenceKeys[i]]))
+      );
+      const loaded = loadLevel(query, relation.referencedTable, relatedConfig, nested, linked, rowsFor, evaluation);
+      result[key] = is(relation, One) ? loaded[0] ?? null : loaded;
+    }
+    return result;
+  });
+}
+
+/**
+ * Answers a relational query from rows per table. Relations in `with` are loaded by matching
+ * their fields and references, the way drizzle's relations() declare them: `one` relations
+ * become a row or null, `many` relations an array. findFirst returns a single row or undefined.
+ */
+export function readRelationalRows(config: CapturedConfig, rowsFor: RowsFor, driver?: DriverName): unknown {
+  const query = config.relationalQuery!;
+  const rows = loadLevel(
+    query,
+    config.table,
+    query.tableConfig,
+    query.queryConfig,
+    rowsFor(config.table, query.tableConfig.tsName),
+    rowsFor,
+    { placeholderValues: config.placeholderValues, driver }
+  );
+  return config.operation === "findFirst" ? rows[0] : rows;
+}
+
+// Fixtures from .rows(): an array holds the queried table's rows, an object holds rows per table
+// keyed by table name or by the table's key in the schema
+export function readRelationalFixtures(fixtures: Row[] | JoinFixtures, config: CapturedConfig, driver?: DriverName): unknown {
+  return readRelationalRows(config, (table, tsName, via) => {
+    const rows = Array.isArray(fixtures)
+      ? (table === config.table ? fixtures : undefined)
+      : fixtures[getTableName(table)] ?? fixtures[tsName];
+    if (!rows) {
+      const name = getTableName(table);
+      const given = Array.isArray(fixtures) ? [getTableName(config.table)] : Object.keys(fixtures);
+      throw new Error(
+        `.rows() has no fixtures for "${name}"${via ? `, which the query loads through "${via}"` : ""}. ` +
+        `Pass rows for every table the query loads, e.g. { ${getTableName(config.table)}: [...], ${name}: [...] }. ` +
+        `Got: ${given.map((key) => `"${key}"`).join(", ") || "(none)"}`
+      );
+    }
+    return rows;
+  }, driver);
+}
@@ -0,0 +1,155 @@
+// ABOUTME: Checks rows a mock responded with against the query's columns for validateResponses.
+// ABOUTME: Reports unknown keys, missing not-null columns and values of the wrong type.
+
+import { Column, is } from "drizzle-orm";
+import type { RelationalSelectionItem } from "./driver-rows.js";
+import { formatValue } from "./value-matching.js";
+import type { CapturedConfig, SelectedField } from "./types.js";
+
+type Row = Record<string, unknown>;
+
+// Expected keys of a result row: a column, an SQL expression (any value), or a nested object
+type Shape = Map<string, Column | null | Shape>;
+
+// Relational rows nest relations; `many` is unknown from the selection, so arrays and objects are both accepted
+interface RelationShape {
+  columns: Shape;
+  relations: Map<string, RelationShape>;
+}
+
+const expectedByDataType: Record<string, { description: string; check: (value: unknown) => boolean }> = {
+  string: { description: "a string", check: (value) => typeof value === "string" },
+  number: { description: "a number", check: (value) => typeof value === "number" },
+  bigint: { description: "a bigint", check: (value) => typeof value === "bigint" },
+  boolean: { description: "a boolean", check: (value) => typeof value === "boolean" },
+  date: { description: "a Date", check: (value) => value instanceof Date },
+  array: { description: "an array", check: (value) => Array.isArray(value) },
+  buffer: { description: "a Buffer", check: (value) => value instanceof Uint8Array },
+};
+
+function isRow(value: unknown): value is Row {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function shapeFromFields(fields: SelectedField[]): Shape {
+  const shape: Shape = new Map();
+  for (const { path, field } of fields) {
+    let node = shape;
+    for (const segment of path.slice(0, -1)) {
+      let child = node.get(segment);
+      if (!(child instanceof Map)) {
+        child = new Map();
+        node.set(segment, child);
+      }
+      node = child;
+    }
+    node.set(path[path.length - 1], is(field, Column) ? field : null);
+  }
+  return shape;
+}
+
+function shapeFromRelationalSelection(selection: RelationalSelectionItem[]): RelationShape {
+  const shape: RelationShape = { columns: new Map(), relations: new Map() };
+  for (const item of selection) {
+    if (item.isJson) {
+      shape.relations.set(item.tsKey, shapeFromRelationalSelection(item.selection));
+    } else {
+      shape.columns.set(item.tsKey, is(item.field, Column) ? item.field : null);
+    }
+  }
+  return shape;
+}
+
+function checkColumn(column: Column, value: unknown, label: string): string | undefined {
+  if (value === null) {
+    return column.notNull ? `${label}: null in not-null column "${column.name}"` : undefined;
+  }
+  const expected = expectedByDataType[column.dataType];
+  if (!expected || expected.check(value)) return undefined;
+  return `${label}: expected ${expected.description} for ${column.getSQLType()} column "${column.name}", got ${typeof value} ${formatValue(value)}`;
+}
+
+function checkShape(row: Row, shape: Shape, label: string, extraKeys: Set<string> = new Set()): string[] {
+  const problems: string[] = [];
+  for (const key of Object.keys(row)) {
+    if (!shape.has(key) && !extraKeys.has(key)) problems.push(`${label}: unknown key "${key}"`);
+  }
+  for (const [key, expected] of shape) {
+    const path = `${label}.${key}`;
+    if (!(key in row)) {
+      if (is(expected, Column) && expected.notNull) {
+        problems.push(`${label}: missing not-null column ${key}`);
+      }
+      continue;
+    }
+    const value = row[key];
+    if (expected instanceof Map) {
+      // A nested table from a join that didn't match
+      if (value === null) continue;
+      if (!isRow(value)) {
+        problems.push(`${path}: expected an object, got ${formatValue(value)}`);
+        continue;
+      }
+      problems.push(...checkShape(value, expected, path));
+    } else if (expected) {
+      const problem = checkColumn(expected, value, path);
+      if (problem) problems.push(problem);
+    }
+  }
+  return problems;
+}
+
+function checkRelationalRow(row: Row, shape: RelationShape, label: string): string[] {
+  const problems = checkShape(row, shape.columns, label, new Set(shape.relations.keys()));
+  for (const [key, relation] of shape.relations) {
+    const value = row[key];
+    if (value === undefined || value === null) continue;
+    const path = `${label}.${key}`;
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => problems.push(...checkRelationalItem(item, relation, `${path}[${i}]`)));
+    } else {
+      problems.push(...checkRelationalItem(value, relation, path));
+    }
+  }
+  return problems;
+}
+
+function checkRelationalItem(item: unknown, shape: RelationShape, label: string): string[] {
+  return isRow(item) ? checkRelationalRow(item, shape, label) : [`${label}: expected a row, got ${formatValue(item)}`];
+}
+
+function checkRows(result: unknown, label: string, check: (row: Row, label: string) => string[]): string[] {
+  if (!Array.isArray(result)) {
+    return [`expected an array of rows, got ${formatValue(result)}`];
+  }
+  return result.flatMap((row, i) =>
+    isRow(row) ? check(row, `${label} ${i + 1}`) : [`${label} ${i + 1}: expected a row, got ${formatValue(row)}`]
+  );
+}
+
+/**
+ * Lists what's wrong with a mock's response for this query, or nothing when it fits. Selects
+ * and .returning() writes are checked against their selected fields, relational queries against
+ * the columns and relations they load. Other responses, such as write results, aren't checked.
+ */
+export function validateResponse(
+  result: unknown,
+  config: CapturedConfig,
+  relationalSelection?: RelationalSelectionItem[]
+): string[] {
+  if (config.operation === "findFirst" || config.operation === "findMany") {
+    if (!relationalSelection) return [];
+    const shape = shapeFromRelationalSelection(relationalSelection);
+    const check = (row: Row, label: string) => checkRelationalRow(row, shape, label);
+    if (config.operation === "findFirst") {
+      if (result === undefined) return [];
+      return isRow(result) ? check(result, "row") : [`expected a row or undefined, got ${formatValue(result)}`];
+    }
+    return checkRows(result, "row", check);
+  }
+  if (!config.selection) return [];
+  const shape = shapeFromFields(config.selection);
+  // SQLite's .get() returns a single row
+  if (isRow(result)) return checkShape(result, shape, "row");
+  return checkRows(result, "row", (row, label) => checkShape(row, shape, label));
+}
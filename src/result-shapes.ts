@@ -0,0 +1,86 @@
+// ABOUTME: Builds the result objects each drizzle driver returns for writes without .returning().
+// ABOUTME: Lets write mocks report affected rows and insert ids in the shape repository code reads.
+
+import { EntityKind } from "./drizzle-internals.js";
+import type { SqlDialectName } from "./sql-normalization.js";
+
+export type DriverName = "node-postgres" | "postgres-js" | "mysql2" | "better-sqlite3" | "libsql";
+
+const driverBySessionKind: Record<string, DriverName> = {
+  NodePgSession: "node-postgres",
+  PostgresJsSession: "postgres-js",
+  MySql2Session: "mysql2",
+  BetterSQLiteSession: "better-sqlite3",
+  LibSQLSession: "libsql",
+};
+
+// Drivers without a dedicated shape get the most common driver for their dialect
+const driverByDialect: Record<SqlDialectName, DriverName> = {
+  postgres: "node-postgres",
+  mysql: "mysql2",
+  sqlite: "better-sqlite3",
+};
+
+export function detectDriver(session: any, dialect: SqlDialectName): DriverName {
+  const kind: string = session?.constructor?.[EntityKind] ?? "";
+  return driverBySessionKind[kind] ?? driverByDialect[dialect];
+}
+
+export interface WriteSummary {
+  operation: string;
+  affected: number;
+  insertId?: number | bigint;
+}
+
+export function writeResult(driver: DriverName, { operation, affected, insertId }: WriteSummary): unknown {
+  const command = operation.toUpperCase();
+  switch (driver) {
+    case "node-postgres":
+      // pg reports an oid of 0 for inserts and null otherwise
+      return { command, rowCount: affected, oid: operation === "insert" ? 0 : null, rows: [], fields: [] };
+    case "postgres-js":
+      return Object.assign([], { count: affected, command, columns: [] });
+    case "mysql2":
+      return [
+        {
+          fieldCount: 0,
+          affectedRows: affected,
+          insertId: insertId ?? 0,
+          info: "",
+          serverStatus: 2,
+          warningStatus: 0,
+          changedRows: operation === "update" ? affected : 0,
+        },
+        undefined,
+      ];
+    case "better-sqlite3":
+      return { changes: affected, lastInsertRowid: insertId ?? 0 };
+    case "libsql":
+      return {
+        columns: [],
+        columnTypes: [],
+        rows: [],
+        rowsAffected: affected,
+        lastInsertRowid: insertId === undefined ? undefined : BigInt(insertId),
+        toJSON() {
+          return {
+            columns: [],
+            columnTypes: [],
+            rows: [],
+            rowsAffected: affected,
+            lastInsertRowid: insertId === undefined ? null : String(insertId),
+          };
+        },
+      };
+  }
+}
+
+export function supportsInsertId(driver: DriverName): boolean {
+  return driver === "mysql2" || driver === "better-sqlite3" || driver === "libsql";
+}
+
+// MySQL reports the first id generated by a multi-row insert; SQLite reports the last
+export function reportedInsertId(driver: DriverName, ids: unknown[]): number | bigint | undefined {
+  const id = driver === "mysql2" ? ids[0] : ids[ids.length - 1];
+  return typeof id === "number" || typeof id === "bigint" ? id : undefined;
+}
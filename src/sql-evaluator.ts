@@ -0,0 +1,466 @@
+// ABOUTME: Evaluates drizzle SQL condition and ordering objects against in-memory rows.
+// ABOUTME: Walks the SQL chunk tree built by drizzle's operators instead of parsing rendered SQL text.
+
+import { Column, is, Param, Placeholder, SQL, StringChunk } from "drizzle-orm";
+import type { DriverName } from "./result-shapes.js";
+
+type Row = Record<string, unknown>;
+
+type Token =
+  | { kind: "keyword"; value: string }
+  | { kind: "column"; column: Column }
+  | { kind: "value"; value: unknown }
+  | { kind: "list"; values: unknown[] };
+
+type Operand = (row: Row) => unknown;
+
+// How LIKE compares letters: "ascii" folds only A-Z, as SQLite does, "all" folds every letter
+type CaseFolding = "none" | "ascii" | "all";
+
+export type ColumnResolver = (column: Column) => string;
+
+export interface EvaluationContext {
+  resolveColumn: ColumnResolver;
+  placeholderValues?: Record<string, unknown>;
+  // Decides whether LIKE ignores case and where NULL sorts; Postgres semantics when absent
+  driver?: DriverName;
+}
+
+// Postgres LIKE is case-sensitive, MySQL's default collations are not, and SQLite folds ASCII letters only
+const likeCaseFolding: Record<DriverName, CaseFolding> = {
+  "node-postgres": "none",
+  "postgres-js": "none",
+  mysql2: "all",
+  "better-sqlite3": "ascii",
+  libsql: "ascii",
+};
+
+// Where NULL sorts when orderBy doesn't say: Postgres treats it as larger than any value, so it
+// comes last ascending and first descending; MySQL and SQLite treat it as smaller
+const nullsSortLargest: Record<DriverName, boolean> = {
+  "node-postgres": true,
+  "postgres-js": true,
+  mysql2: false,
+  "better-sqlite3": false,
+  libsql: false,
+};
+
+export class UnsupportedSqlError extends Error {
+  constructor(detail: string) {
+    super(`Cannot evaluate SQL in memory: ${detail}`);
+    this.name = "UnsupportedSqlError";
+  }
+}
+
+const KEYWORD_PATTERN = /\s*(<>|!=|>=|<=|=|<|>|\(|\)|,|-?\d+(?:\.\d+)?|[A-Za-z_]+)\s*/y;
+
+function tokenizeText(text: string, tokens: Token[]): void {
+  const trimmed = text.trim();
+  let position = 0;
+  while (position < trimmed.length) {
+    KEYWORD_PATTERN.lastIndex = position;
+    const match = KEYWORD_PATTERN.exec(trimmed);
+    if (!match) {
+      throw new UnsupportedSqlError(`unexpected text "${trimmed.slice(position)}"`);
+    }
+    const word = match[1];
+    if (/^-?\d/.test(word)) {
+      tokens.push({ kind: "value", value: Number(word) });
+    } else {
+      tokens.push({ kind: "keyword", value: word.toLowerCase() });
+    }
+    position = KEYWORD_PATTERN.lastIndex;
+  }
+}
+
+function resolveValue(value: unknown, context: EvaluationContext): unknown {
+  if (is(value, Param)) {
+    return resolveValue(value.value, context);
+  }
+  if (is(value, Placeholder)) {
+    const values = context.placeholderValues ?? {};
+    if (!(value.name in values)) {
+      throw new UnsupportedSqlError(`no value provided for placeholder "${value.name}"`);
+    }
+    return values[value.name];
+  }
+  return value;
+}
+
+/** A limit or offset: a number, or a sql.placeholder() filled in when the prepared query runs. */
+export function resolveCount(value: unknown, context: EvaluationContext): number | undefined {
+  const resolved = resolveValue(value, context);
+  return typeof resolved === "number" ? resolved : undefined;
+}
+
+function flatten(chunk: unknown, context: EvaluationContext, tokens: Token[]): void {
+  if (chunk === undefined) return;
+  if (is(chunk, StringChunk)) {
+    tokenizeText(chunk.value.join(""), tokens);
+    return;
+  }
+  if (is(chunk, SQL)) {
+    for (const inner of chunk.queryChunks) flatten(inner, context, tokens);
+    return;
+  }
+  if (is(chunk, SQL.Aliased)) {
+    flatten(chunk.sql, context, tokens);
+    return;
+  }
+  if (is(chunk, Column)) {
+    tokens.push({ kind: "column", column: chunk });
+    return;
+  }
+  if (is(chunk, Param) || is(chunk, Placeholder)) {
+    tokens.push({ kind: "value", value: resolveValue(chunk, context) });
+    return;
+  }
+  if (Array.isArray(chunk)) {
+    tokens.push({ kind: "list", values: chunk.map((v) => resolveValue(v, context)) });
+    return;
+  }
+  if (typeof chunk === "object" && chunk !== null && typeof (chunk as any).getSQL === "function") {
+    throw new UnsupportedSqlError(`unsupported SQL element "${(chunk as any).constructor?.name ?? typeof chunk}"`);
+  }
+  tokens.push({ kind: "value", value: chunk });
+}
+
+function tokenize(sqlObj: SQL, context: EvaluationContext): Token[] {
+  const tokens: Token[] = [];
+  flatten(sqlObj, context, tokens);
+  return tokens;
+}
+
+function normalizeForComparison(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  return value;
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  const left = normalizeForComparison(a);
+  const right = normalizeForComparison(b);
+  if (left === right) return true;
+  if (typeof left === "bigint" || typeof right === "bigint") {
+    return typeof left !== "object" && typeof right !== "object" && String(left) === String(right);
+  }
+  if (typeof left === "object" && typeof right === "object" && left !== null && right !== null) {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  return false;
+}
+
+export function compareValues(a: unknown, b: unknown): number {
+  const left = normalizeForComparison(a) as any;
+  const right = normalizeForComparison(b) as any;
+  if (left === right) return 0;
+  if (left === null || left === undefined) return -1;
+  if (right === null || right === undefined) return 1;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function isNullish(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+// SQL's three-valued logic: null stands for unknown, which comparisons with NULL yield and
+// not() keeps. Only rows whose condition is true are selected.
+function truth(value: unknown): boolean | null {
+  return isNullish(value) ? null : Boolean(value);
+}
+
+function negate(value: unknown): boolean | null {
+  const result = truth(value);
+  return result === null ? null : !result;
+}
+
+class ConditionParser {
+  private position = 0;
+
+  constructor(private tokens: Token[], private context: EvaluationContext) {}
+
+  parse(): Operand {
+    const expr = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new UnsupportedSqlError(`unexpected ${describeToken(this.tokens[this.position])}`);
+    }
+    return expr;
+  }
+
+  private peekKeyword(...values: string[]): boolean {
+    const token = this.tokens[this.position];
+    return token?.kind === "keyword" && values.includes(token.value);
+  }
+
+  private expectKeyword(value: string): void {
+    if (!this.peekKeyword(value)) {
+      const token = this.tokens[this.position];
+      throw new UnsupportedSqlError(`expected "${value}" but found ${token ? describeToken(token) : "end of condition"}`);
+    }
+    this.position++;
+  }
+
+  private parseOr(): Operand {
+    let left = this.parseAnd();
+    while (this.peekKeyword("or")) {
+      this.position++;
+      const lhs = left;
+      const rhs = this.parseAnd();
+      left = (row) => {
+        const a = truth(lhs(row));
+        const b = truth(rhs(row));
+        return a === true || b === true ? true : a === null || b === null ? null : false;
+      };
+    }
+    return left;
+  }
+
+  private parseAnd(): Operand {
+    let left = this.parseNot();
+    while (this.peekKeyword("and")) {
+      this.position++;
+      const lhs = left;
+      const rhs = this.parseNot();
+      left = (row) => {
+        const a = truth(lhs(row));
+        const b = truth(rhs(row));
+        return a === false || b === false ? false : a === null || b === null ? null : true;
+      };
+    }
+    return left;
+  }
+
+  private parseNot(): Operand {
+    if (this.peekKeyword("not")) {
+      this.position++;
+      const inner = this.parseNot();
+      return (row) => negate(inner(row));
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Operand {
+    if (this.peekKeyword("(")) {
+      this.position++;
+      const inner = this.parseOr();
+      this.expectKeyword(")");
+      return inner;
+    }
+
+    const left = this.parseOperand();
+    const token = this.tokens[this.position];
+    if (token?.kind !== "keyword" || ["and", "or", ")"].includes(token.value)) {
+      return left;
+    }
+
+    switch (token.value) {
+      case "=":
+      case "<>":
+      case "!=":
+      case ">":
+      case ">=":
+      case "<":
+      case "<=": {
+        this.position++;
+        const right = this.parseOperand();
+        return comparison(token.value, left, right);
+      }
+      case "is": {
+        this.position++;
+        const negated = this.peekKeyword("not");
+        if (negated) this.position++;
+        this.expectKeyword("null");
+        return negated ? (row) => !isNullish(left(row)) : (row) => isNullish(left(row));
+      }
+      case "not": {
+        this.position++;
+        const inner = this.parseNegatable(left);
+        return (row) => negate(inner(row));
+      }
+      default:
+        return this.parseNegatable(left);
+    }
+  }
+
+  // Operators that drizzle also emits in a "not ..." form: in, between, like, ilike
+  private parseNegatable(left: Operand): Operand {
+    const token = this.tokens[this.position];
+    const operator = token?.kind === "keyword" ? token.value : undefined;
+    switch (operator) {
+      case "in": {
+        this.position++;
+        const list = this.parseOperand();
+        return (row) => {
+          const value = left(row);
+          const values = list(row);
+          if (!Array.isArray(values)) {
+            throw new UnsupportedSqlError("\"in\" requires a list of values");
+          }
+          if (isNullish(value)) return null;
+          if (values.some((candidate) => valuesEqual(value, candidate))) return true;
+          return values.some(isNullish) ? null : false;
+        };
+      }
+      case "between": {
+        this.position++;
+        const min = this.parseOperand();
+        this.expectKeyword("and");
+        const max = this.parseOperand();
+        return (row) => {
+          const value = left(row);
+          const low = min(row);
+          const high = max(row);
+          if (isNullish(value) || isNullish(low) || isNullish(high)) return null;
+          return compareValues(value, low) >= 0 && compareValues(value, high) <= 0;
+        };
+      }
+      case "like":
+      case "ilike": {
+        this.position++;
+        const pattern = this.parseOperand();
+        const folding = operator === "ilike" ? "all" : likeCaseFolding[this.context.driver ?? "node-postgres"];
+        return (row) => {
+          const value = left(row);
+          const source = pattern(row);
+          if (isNullish(value) || isNullish(source)) return null;
+          if (typeof source !== "string") return false;
+          const text = folding === "ascii" ? foldAscii(String(value)) : String(value);
+          return likeToRegExp(folding === "ascii" ? foldAscii(source) : source, folding === "all").test(text);
+        };
+      }
+      default:
+        throw new UnsupportedSqlError(`unsupported operator ${token ? describeToken(token) : "at end of condition"}`);
+    }
+  }
+
+  private parseOperand(): Operand {
+    const token = this.tokens[this.position];
+    if (!token) {
+      throw new UnsupportedSqlError("condition ended unexpectedly");
+    }
+    this.position++;
+    switch (token.kind) {
+      case "column": {
+        const key = this.context.resolveColumn(token.column);
+        return (row) => row[key];
+      }
+      case "value":
+        return () => token.value;
+      case "list":
+        return () => token.values;
+      case "keyword":
+        if (token.value === "true") return () => true;
+        if (token.value === "false") return () => false;
+        if (token.value === "null") return () => null;
+        throw new UnsupportedSqlError(`unexpected ${describeToken(token)}`);
+    }
+  }
+}
+
+function comparison(operator: string, left: Operand, right: Operand): Operand {
+  return (row) => {
+    const a = left(row);
+    const b = right(row);
+    if (isNullish(a) || isNullish(b)) return null;
+    switch (operator) {
+      case "=":
+        return valuesEqual(a, b);
+      case "<>":
+      case "!=":
+        return !valuesEqual(a, b);
+      case ">":
+        return compareValues(a, b) > 0;
+      case ">=":
+        return compareValues(a, b) >= 0;
+      case "<":
+        return compareValues(a, b) < 0;
+      case "<=":
+        return compareValues(a, b) <= 0;
+    }
+    return false;
+  };
+}
+
+function foldAscii(text: string): string {
+  return text.replace(/[A-Z]/g, (letter) => letter.toLowerCase());
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// LIKE wildcards: % matches any run of characters, _ a single one, \ escapes the next character
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\" && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === "%") {
+      source += ".*";
+    } else if (char === "_") {
+      source += ".";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, caseInsensitive ? "is" : "s");
+}
+
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case "keyword":
+      return `"${token.value}"`;
+    case "column":
+      return `column "${token.column.name}"`;
+    case "value":
+      return `value ${JSON.stringify(token.value)}`;
+    case "list":
+      return "value list";
+  }
+}
+
+export function compileCondition(
+  condition: SQL | undefined,
+  context: EvaluationContext
+): (row: Row) => boolean {
+  if (!condition) return () => true;
+  const predicate = new ConditionParser(tokenize(condition, context), context).parse();
+  return (row) => truth(predicate(row)) === true;
+}
+
+export function compileOrdering(
+  orderBy: unknown[] | undefined,
+  context: EvaluationContext
+): ((a: Row, b: Row) => number) | undefined {
+  if (!orderBy || orderBy.length === 0) return undefined;
+
+  const keys = orderBy.map((entry) => {
+    const tokens = is(entry, Column)
+      ? [{ kind: "column", column: entry } as Token]
+      : tokenize(entry as SQL, context);
+    const [first, ...rest] = tokens;
+    if (first?.kind !== "column") {
+      throw new UnsupportedSqlError("order by entries must start with a column");
+    }
+    const words = rest.map((token) => (token.kind === "keyword" ? token.value : ""));
+    const direction = words[0] === "desc" ? -1 : 1;
+    // An explicit NULLS FIRST / NULLS LAST wins over the driver's default
+    const nulls = words.indexOf("nulls");
+    const nullsLast = nulls >= 0
+      ? words[nulls + 1] === "last"
+      : nullsSortLargest[context.driver ?? "node-postgres"] === (direction === 1);
+    return { key: context.resolveColumn(first.column), direction, nullsLast };
+  });
+
+  return (a, b) => {
+    for (const { key, direction, nullsLast } of keys) {
+      const leftNull = isNullish(a[key]);
+      const rightNull = isNullish(b[key]);
+      if (leftNull !== rightNull) return leftNull === nullsLast ? 1 : -1;
+      if (leftNull) continue;
+      const result = compareValues(a[key], b[key]);
+      if (result !== 0) return result * direction;
+    }
+    return 0;
+  };
+}
@@ -0,0 +1,101 @@
+// ABOUTME: Normalizes generated SQL per dialect so matching behaves the same on Postgres, MySQL and SQLite.
+// ABOUTME: Canonical form uses double-quoted identifiers, ? placeholders and lowercase text outside quotes.
+
+import { EntityKind } from "./drizzle-internals.js";
+
+export type SqlDialectName = "postgres" | "mysql" | "sqlite";
+
+interface DialectRules {
+  identifierQuotes: string[];
+  dollarPlaceholders: boolean;
+}
+
+const rulesByDialect: Record<SqlDialectName, DialectRules> = {
+  postgres: { identifierQuotes: ['"'], dollarPlaceholders: true },
+  mysql: { identifierQuotes: ["`"], dollarPlaceholders: false },
+  sqlite: { identifierQuotes: ['"', "`"], dollarPlaceholders: false },
+};
+
+// User-written SQL snippets may use either quoting or placeholder style regardless of dialect
+const patternRules: DialectRules = { identifierQuotes: ['"', "`"], dollarPlaceholders: true };
+
+export interface SqlNormalizer {
+  dialect: SqlDialectName;
+  /** Canonical form of SQL generated by this dialect. */
+  canonicalize(sql: string): string;
+  /** Canonical form of a user-written snippet such as an onSqlContaining() substring. */
+  canonicalizePattern(text: string): string;
+  /** Canonical form with table prefixes stripped, used for containingSql() fragments. */
+  fragmentForm(sql: string): string;
+}
+
+export function normalizeSql(sql: string): string {
+  return sql.replace(/\s+/g, " ").trim();
+}
+
+export function detectDialect(dialect: any): SqlDialectName {
+  const kind: string = dialect?.constructor?.[EntityKind] ?? "";
+  if (kind.startsWith("MySql") || kind.startsWith("SingleStore")) return "mysql";
+  if (kind.startsWith("SQLite")) return "sqlite";
+  return "postgres";
+}
+
+// Finds the end of a quoted section starting at `start`; a doubled quote character is an escape
+function closingQuote(sql: string, start: number, quote: string): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i;
+    }
+    i++;
+  }
+  return sql.length;
+}
+
+function canonicalizeWith(sql: string, rules: DialectRules): string {
+  let result = "";
+  let i = 0;
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (char === "'") {
+      const end = closingQuote(sql, i, "'");
+      result += sql.slice(i, end + 1);
+      i = end + 1;
+    } else if (rules.identifierQuotes.includes(char)) {
+      const end = closingQuote(sql, i, char);
+      result += `"${sql.slice(i + 1, end)}"`;
+      i = end + 1;
+    } else if (rules.dollarPlaceholders && char === "$" && /\d/.test(sql[i + 1] ?? "")) {
+      i++;
+      while (/\d/.test(sql[i] ?? "")) i++;
+      result += "?";
+    } else if (/\s/.test(char)) {
+      while (/\s/.test(sql[i] ?? "")) i++;
+      result += " ";
+    } else {
+      result += char.toLowerCase();
+      i++;
+    }
+  }
+  return result.trim();
+}
+
+// Strip table/alias prefixes: "table"."col" → "col"
+function stripTablePrefixes(sql: string): string {
+  return sql.replace(/"[^"]+"\."([^"]+)"/g, '"$1"');
+}
+
+export function createSqlNormalizer(dialect: SqlDialectName): SqlNormalizer {
+  const rules = rulesByDialect[dialect];
+  return {
+    dialect,
+    canonicalize: (sql) => canonicalizeWith(sql, rules),
+    canonicalizePattern: (text) => canonicalizeWith(text, patternRules),
+    fragmentForm: (sql) => stripTablePrefixes(canonicalizeWith(sql, rules)),
+  };
+}
@@ -0,0 +1,276 @@
+// ABOUTME: Keeps real rows per table for stateful mocking, driven by captured query configs.
+// ABOUTME: Inserts append rows, updates and deletes change them, selects and relational queries read them back.
+
+import { Column, getTableColumns, is, SQL } from "drizzle-orm";
+import type { Table } from "drizzle-orm";
+import { dbErrors } from "./db-errors.js";
+import { columnResolver, tableKey } from "./drizzle-internals.js";
+import { readRelationalRows } from "./relational-rows.js";
+import { reportedInsertId, writeResult, type DriverName } from "./result-shapes.js";
+import { compileCondition, compileOrdering, resolveCount, valuesEqual, type EvaluationContext } from "./sql-evaluator.js";
+import type { CapturedConfig, SelectedField } from "./types.js";
+
+type Row = Record<string, unknown>;
+
+/** The store's rows at one point in time, for undoing a transaction's writes. */
+export type StoreSnapshot = Map<string, Row[]>;
+
+const autoIncrementColumnTypes = new Set([
+  "PgSerial",
+  "PgSmallSerial",
+  "PgBigSerial53",
+  "PgBigSerial64",
+  "MySqlSerial",
+]);
+
+export function isAutoIncrement(column: any): boolean {
+  if (autoIncrementColumnTypes.has(column.columnType)) return true;
+  if (column.autoIncrement === true) return true;
+  if (column.generatedIdentity) return true;
+  // SQLite INTEGER PRIMARY KEY aliases the rowid and is assigned automatically
+  return column.columnType === "SQLiteInteger" && column.primary;
+}
+
+function evaluationContext(config: CapturedConfig, driver: DriverName | undefined): EvaluationContext {
+  return {
+    resolveColumn: columnResolver(config.table),
+    placeholderValues: config.placeholderValues,
+    driver,
+  };
+}
+
+function resolveSqlValue(value: unknown, key: string): unknown {
+  if (is(value, SQL)) {
+    throw new Error(
+      `Stateful mode cannot evaluate the SQL expression given for column "${key}". Pass a plain value instead.`
+    );
+  }
+  return value;
+}
+
+export function projectSelection(row: Row, selection: SelectedField[], resolveColumn: (column: Column) => string): Row {
+  const result: Row = {};
+  for (const { path, field } of selection) {
+    let target = result;
+    for (const segment of path.slice(0, -1)) {
+      target = (target[segment] ??= {}) as Row;
+    }
+    if (!is(field, Column)) {
+      throw new Error(
+        `Cannot evaluate the SQL expression selected as "${path.join(".")}" in memory. Register a response for this query instead.`
+      );
+    }
+    target[path[path.length - 1]] = row[resolveColumn(field)];
+  }
+  return result;
+}
+
+// Answers a select or relational query from a set of rows: applies where, orderBy, offset
+// and limit, then projects the selected fields. findFirst returns a single row or undefined.
+export function readRows(rows: Row[], config: CapturedConfig, driver?: DriverName): unknown {
+  if (config.joins && config.joins.length > 0) {
+    throw new Error("Cannot answer selects with joins from in-memory rows. Register a response for this query instead.");
+  }
+  const context = evaluationContext(config, driver);
+  const predicate = compileCondition(config.where, context);
+  const ordering = compileOrdering(config.orderBy, context);
+  let result = rows.filter((row) => predicate(row));
+  if (ordering) result = [...result].sort(ordering);
+  const offset = resolveCount(config.offset, context) ?? 0;
+  const limit = resolveCount(config.limit, context);
+  result = result.slice(offset, limit !== undefined ? offset + limit : undefined);
+
+  const projected = config.operation === "select" && config.selection
+    ? result.map((row) => projectSelection(row, config.selection!, context.resolveColumn))
+    : result.map((row) => ({ ...row }));
+  return config.operation === "findFirst" ? projected[0] : projected;
+}
+
+export class TableStore {
+  private tables = new Map<string, Row[]>();
+  private sequences = new Map<string, number>();
+
+  constructor(private driver: DriverName = "node-postgres") {}
+
+  // Seeded rows are held to the same primary key and unique constraints as inserts
+  seed(table: Table, rows: Row[]): void {
+    const stored = this.rowsFor(table);
+    const seeded: Row[] = [];
+    for (const values of rows) {
+      const row = this.withDefaults(table, values);
+      this.checkUnique(table, [...stored, ...seeded], row);
+      seeded.push(row);
+    }
+    stored.push(...seeded);
+  }
+
+  rows(table: Table): Row[] {
+    return this.rowsFor(table).map((row) => ({ ...row }));
+  }
+
+  reset(): void {
+    this.tables.clear();
+    this.sequences.clear();
+  }
+
+  snapshot(): StoreSnapshot {
+    return new Map([...this.tables].map(([key, rows]) => [key, rows.map((row) => ({ ...row }))]));
+  }
+
+  // Sequences keep counting, as they do in a database when a transaction rolls back
+  restore(snapshot: StoreSnapshot): void {
+    this.tables = new Map([...snapshot].map(([key, rows]) => [key, rows.map((row) => ({ ...row }))]));
+  }
+
+  execute(config: CapturedConfig): unknown {
+    switch (config.operation) {
+      case "insert":
+        return this.insert(config);
+      case "update":
+        return this.update(config);
+      case "delete":
+        return this.delete(config);
+      case "select":
+      case "findFirst":
+      case "findMany":
+        return this.select(config);
+      default:
+        throw new Error(`Stateful mode does not support "${config.operation}" queries`);
+    }
+  }
+
+  private rowsFor(table: Table): Row[] {
+    const key = tableKey(table);
+    let rows = this.tables.get(key);
+    if (!rows) {
+      rows = [];
+      this.tables.set(key, rows);
+    }
+    return rows;
+  }
+
+  private nextSequenceValue(table: Table, key: string): number {
+    const sequenceKey = `${tableKey(table)}.${key}`;
+    let current = this.sequences.get(sequenceKey);
+    if (current === undefined) {
+      current = 0;
+      for (const row of this.rowsFor(table)) {
+        const value = Number(row[key]);
+        if (Number.isFinite(value) && value > current) current = value;
+      }
+    }
+    this.sequences.set(sequenceKey, current + 1);
+    return current + 1;
+  }
+
+  private withDefaults(table: Table, values: Row): Row {
+    const row: Row = {};
+    for (const [key, column] of Object.entries(getTableColumns(table)) as [string, any][]) {
+      if (values[key] !== undefined) {
+        row[key] = resolveSqlValue(values[key], key);
+        if (isAutoIncrement(column) && typeof row[key] === "number") {
+          const sequenceKey = `${tableKey(table)}.${key}`;
+          const current = this.sequences.get(sequenceKey) ?? 0;
+          if ((row[key] as number) > current) this.sequences.set(sequenceKey, row[key] as number);
+        }
+      } else if (column.defaultFn) {
+        row[key] = column.defaultFn();
+      } else if (column.default !== undefined) {
+        // SQL defaults such as now() can't be run in memory; date columns get the current time
+        row[key] = is(column.default, SQL) ? (column.dataType === "date" ? new Date() : null) : column.default;
+      } else if (isAutoIncrement(column)) {
+        const next = this.nextSequenceValue(table, key);
+        row[key] = column.dataType === "bigint" ? BigInt(next) : next;
+      } else if (column.onUpdateFn) {
+        row[key] = column.onUpdateFn();
+      } else {
+        row[key] = null;
+      }
+    }
+    return row;
+  }
+
+  private returningOrResult(config: CapturedConfig, rows: Row[]): unknown {
+    if (config.selection) {
+      const resolveColumn = columnResolver(config.table);
+      return rows.map((row) => projectSelection(row, config.selection!, resolveColumn));
+    }
+    const summary = { operation: config.operation, affected: rows.length };
+    if (config.operation !== "insert") return writeResult(this.driver, summary);
+
+    const idKey = Object.entries(getTableColumns(config.table)).find(([, column]) => isAutoIncrement(column))?.[0];
+    const ids = idKey ? rows.map((row) => row[idKey]) : [];
+    return writeResult(this.driver, { ...summary, insertId: reportedInsertId(this.driver, ids) });
+  }
+
+  // The database rejects a row that repeats a stored value of a primary key or unique column
+  private checkUnique(table: Table, existing: Row[], row: Row): void {
+    for (const [key, column] of Object.entries(getTableColumns(table)) as [string, any][]) {
+      if (!column.primary && !column.isUnique) continue;
+      const value = row[key];
+      if (value === null || value === undefined) continue;
+      if (existing.some((other) => valuesEqual(other[key], value))) {
+        throw dbErrors.uniqueViolation({ table, column: key, value });
+      }
+    }
+  }
+
+  private insert(config: CapturedConfig): unknown {
+    if (config.onConflict) {
+      throw new Error(
+        "Stateful mode cannot apply onConflictDoNothing(), onConflictDoUpdate(), onDuplicateKeyUpdate() or .ignore(). " +
+        "Register a response for this insert instead."
+      );
+    }
+    const stored = this.rowsFor(config.table);
+    const inserted: Row[] = [];
+    for (const values of config.values ?? []) {
+      const row = this.withDefaults(config.table, values);
+      this.checkUnique(config.table, [...stored, ...inserted], row);
+      inserted.push(row);
+    }
+    stored.push(...inserted);
+    return this.returningOrResult(config, inserted);
+  }
+
+  private update(config: CapturedConfig): unknown {
+    const predicate = compileCondition(config.where, evaluationContext(config, this.driver));
+    const columns = getTableColumns(config.table) as Record<string, any>;
+    const set = config.set ?? {};
+    const stored = this.rowsFor(config.table);
+    const matched = new Set(stored.filter((row) => predicate(row)));
+    const changed = [...matched].map((row) => {
+      const next = { ...row };
+      for (const [key, value] of Object.entries(set)) {
+        next[key] = resolveSqlValue(value, key);
+      }
+      for (const [key, column] of Object.entries(columns)) {
+        if (!(key in set) && column.onUpdateFn) {
+          next[key] = column.onUpdateFn();
+        }
+      }
+      return next;
+    });
+    // Every changed row is checked before any is written, so a violation leaves the table as it was
+    const untouched = stored.filter((row) => !matched.has(row));
+    changed.forEach((row, i) => this.checkUnique(config.table, [...untouched, ...changed.slice(0, i)], row));
+    const updated = [...matched];
+    updated.forEach((row, i) => Object.assign(row, changed[i]));
+    return this.returningOrResult(config, updated);
+  }
+
+  private delete(config: CapturedConfig): unknown {
+    const predicate = compileCondition(config.where, evaluationContext(config, this.driver));
+    const stored = this.rowsFor(config.table);
+    const deleted = stored.filter((row) => predicate(row));
+    this.tables.set(tableKey(config.table), stored.filter((row) => !predicate(row)));
+    return this.returningOrResult(config, deleted);
+  }
+
+  private select(config: CapturedConfig): unknown {
+    if (config.relationalQuery) {
+      return readRelationalRows(config, (table) => this.rowsFor(table), this.driver);
+    }
+    return readRows(this.rowsFor(config.table), config, this.driver);
+  }
+}
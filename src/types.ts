@@ -1,31 +1,153 @@
+import type { Placeholder, SQL, Table } from "drizzle-orm";
+import type { UnmatchedBehavior } from "./unmatched.js";
+
+export type CallOutcome = "pending" | "data" | "threw" | "unmatched";
+
 export interface RecordedCall {
   sql: string;
   params: unknown[];
   timestamp: number;
+  outcome: CallOutcome;
+  result?: unknown;
+  error?: unknown;
+  operation?: string;
+  tableName?: string;
+  tableSchema?: string;
+  columnKeys?: string[];
+  values?: Record<string, unknown>[];
+  set?: Record<string, unknown>;
+  entry?: MockEntry;
+  handle?: MockHandle;
+  transactionId?: number;
+  // The transaction and the savepoints nested in it, outermost first; the last is transactionId
+  transactionPath?: number[];
+}
+
+/** The options given to db.transaction(): Postgres and MySQL isolation and access modes, SQLite's behavior. */
+export interface TransactionConfig {
+  isolationLevel?: string;
+  accessMode?: string;
+  deferrable?: boolean;
+  withConsistentSnapshot?: boolean;
+  behavior?: string;
+}
+
+export type TransactionEventType = "begin" | "commit" | "rollback" | "savepoint" | "release" | "rollbackToSavepoint";
+
+/** A step in a transaction's lifecycle. Savepoints are nested tx.transaction() calls. */
+export interface TransactionEvent {
+  type: TransactionEventType;
+  transactionId: number;
+  transactionPath: number[];
+  timestamp: number;
+  // On "begin", when db.transaction() was given options
+  config?: TransactionConfig;
+  // On rollbacks: tx.rollback() or an error thrown from the callback
+  cause?: "rollback" | "error";
+  error?: unknown;
 }
 
-export type MockMatcher =
+/** Where a mocked transaction fails: as it begins, before the callback runs, or as it commits. */
+export type TransactionFailureStage = "begin" | "commit";
+
+/** A failure registered with mock.failNextTransaction() or mock.onTransaction().throw(). */
+export interface TransactionFailure {
+  at: TransactionFailureStage;
+  error: Error;
+  // Only transactions begun with these options fail
+  config?: TransactionConfig;
+  once: boolean;
+}
+
+export type MockMatcher = (
   | { type: "sql-exact"; sql: string; params?: unknown[] }
   | { type: "sql-starts-with"; sql: string; params?: unknown[] }
   | { type: "sql-pattern"; pattern: RegExp; params?: unknown[] }
   | { type: "sql-contains"; substring: string; params?: unknown[] }
-  | { type: "structural"; operation: string; tableName: string; tableSchema: string | undefined; columnKeys?: string[]; sqlFragments?: SqlFragment[] };
+  | { type: "structural"; operation: string; tableName: string; tableSchema: string | undefined; columnKeys?: string[]; values?: Record<string, unknown>; rowCount?: number; sqlFragments?: SqlFragment[]; joins?: JoinConstraint[]; returning?: boolean; relational?: RelationalShape }
+) & MatcherScope;
+
+/** Limits a mock to queries run on a transaction (true) or outside one (false), from mock.inTransaction()/outsideTransaction(). */
+export interface MatcherScope {
+  inTransaction?: boolean;
+}
+
+/** A table a select must join, from .joining() (any join type) or .leftJoin(). */
+export interface JoinConstraint {
+  tableName: string;
+  tableSchema: string | undefined;
+  joinType?: "left";
+}
+
+/** Per-table fixtures for .rows() on a select with joins, keyed by table name (or alias). */
+export type JoinFixtures = Record<string, Record<string, unknown>[]>;
+
+/**
+ * A relational query's config as findFirst/findMany mocks match it. Clauses are rendered like
+ * .containingSql() fragments; `true` means the clause is present with any value.
+ */
+export interface RelationalShape {
+  columns?: string[];
+  with?: Record<string, RelationalShape>;
+  where?: true | SqlFragment;
+  orderBy?: true | SqlFragment;
+  limit?: true | number;
+  offset?: true | number;
+}
+
+/** A relational query's own config and the schema's relations, for composing its result from per-table rows. */
+export interface RelationalQuery {
+  schema: Record<string, any>;
+  tableNamesMap: Record<string, string>;
+  tableConfig: any;
+  queryConfig: Record<string, any>;
+}
 
 export interface SqlFragment {
   normalizedSql: string;
   params: unknown[];
 }
 
+export interface SelectedField {
+  path: string[];
+  field: unknown;
+}
+
 export interface CapturedConfig {
   operation: string;
   tableName: string;
   tableSchema: string | undefined;
   columnKeys: string[];
+  table: Table;
+  where?: SQL;
+  values?: Record<string, unknown>[];
+  // Set for inserts with onConflictDoNothing(), onConflictDoUpdate(), onDuplicateKeyUpdate() or MySQL's .ignore()
+  onConflict?: boolean;
+  set?: Record<string, unknown>;
+  selection?: SelectedField[];
+  joins?: unknown[];
+  orderBy?: unknown[];
+  limit?: number | Placeholder;
+  offset?: number | Placeholder;
+  relational?: RelationalShape;
+  relationalQuery?: RelationalQuery;
+  placeholderValues?: Record<string, unknown>;
+}
+
+export interface MockDatabaseOptions {
+  stateful?: boolean;
+  strict?: boolean;
+  unmatched?: UnmatchedBehavior;
+  rawDriverRows?: boolean;
+  projectSelections?: boolean;
+  validateResponses?: boolean;
 }
 
 export type MockResponse =
   | { type: "data"; data: unknown }
-  | { type: "function"; fn: (sql: string, params: unknown[]) => unknown };
+  | { type: "rows"; rows: Record<string, unknown>[] | JoinFixtures }
+  | { type: "function"; fn: (sql: string, params: unknown[], config?: CapturedConfig) => unknown }
+  | { type: "write"; affected?: number; insertId?: number | bigint };
 
 export interface MockHandle {
   mock: {
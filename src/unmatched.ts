@@ -0,0 +1,34 @@
+// ABOUTME: Decides what happens when no registered mock matches a query.
+// ABOUTME: Holds the global default and builds the empty results returned instead of throwing.
+
+import { writeOperations } from "./drizzle-internals.js";
+import { writeResult, type DriverName } from "./result-shapes.js";
+import type { CapturedConfig, RecordedCall } from "./types.js";
+
+/**
+ * - `"throw"`: throw a "No mock registered" error (the default)
+ * - `"empty"`: return an empty result shaped for the query
+ * - `"warn"`: log the "No mock registered" message, then return an empty result
+ * - a function: called with the recorded call; its return value is the result
+ */
+export type UnmatchedBehavior = "throw" | "empty" | "warn" | ((call: RecordedCall) => unknown);
+
+let defaultBehavior: UnmatchedBehavior = "throw";
+
+/** Sets the unmatched-query behavior for every controller that doesn't set its own. */
+export function setDefaultUnmatchedBehavior(behavior: UnmatchedBehavior = "throw"): void {
+  defaultBehavior = behavior;
+}
+
+export function getDefaultUnmatchedBehavior(): UnmatchedBehavior {
+  return defaultBehavior;
+}
+
+// `single` is set for SQLite's .get(), which finds no row where other queries find an empty list
+export function emptyResult(driver: DriverName, config: CapturedConfig | undefined, single = false): unknown {
+  if (config && writeOperations.has(config.operation) && !config.selection) {
+    return writeResult(driver, { operation: config.operation, affected: 0 });
+  }
+  if (single || config?.operation === "findFirst") return undefined;
+  return [];
+}
@@ -0,0 +1,78 @@
+// ABOUTME: Deep value comparison that understands anything() and Vitest asymmetric matchers.
+// ABOUTME: Shared by value-aware structural matching so expected values can mix literals and matchers.
+
+import { is, Param } from "drizzle-orm";
+import { isAnything } from "./anything.js";
+import { isPlainObject } from "./drizzle-internals.js";
+
+interface AsymmetricMatcher {
+  asymmetricMatch(other: unknown): boolean;
+  toAsymmetricMatcher?(): string;
+  toString(): string;
+}
+
+export function isAsymmetricMatcher(value: unknown): value is AsymmetricMatcher {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as AsymmetricMatcher).asymmetricMatch === "function"
+  );
+}
+
+export function matchesValue(expected: unknown, actual: unknown): boolean {
+  if (isAnything(expected)) return true;
+  if (isAsymmetricMatcher(expected)) return expected.asymmetricMatch(actual);
+  if (Object.is(expected, actual)) return true;
+
+  if (expected instanceof Date) {
+    return actual instanceof Date && expected.getTime() === actual.getTime();
+  }
+  if (ArrayBuffer.isView(expected)) {
+    if (!ArrayBuffer.isView(actual) || expected.byteLength !== actual.byteLength) return false;
+    const left = new Uint8Array(expected.buffer, expected.byteOffset, expected.byteLength);
+    const right = new Uint8Array(actual.buffer, actual.byteOffset, actual.byteLength);
+    return left.every((byte, i) => byte === right[i]);
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      expected.length === actual.length &&
+      expected.every((item, i) => matchesValue(item, actual[i]))
+    );
+  }
+  if (isPlainObject(expected)) {
+    if (!isPlainObject(actual)) return false;
+    const expectedKeys = Object.keys(expected);
+    if (expectedKeys.length !== Object.keys(actual).length) return false;
+    return expectedKeys.every((key) => key in actual && matchesValue(expected[key], actual[key]));
+  }
+  return false;
+}
+
+// Every expected key must be present on the actual record with a matching value; extra keys are ignored
+export function matchesValueSubset(expected: Record<string, unknown>, actual: Record<string, unknown>): boolean {
+  return Object.entries(expected).every(
+    ([key, value]) => key in actual && matchesValue(value, actual[key])
+  );
+}
+
+export function formatValue(value: unknown): string {
+  if (isAnything(value)) return "anything()";
+  if (isAsymmetricMatcher(value)) return value.toAsymmetricMatcher?.() ?? value.toString();
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "bigint") return `${value}n`;
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(", ")}]`;
+  if (isPlainObject(value)) {
+    return `{ ${Object.entries(value).map(([key, v]) => `${key}: ${formatValue(v)}`).join(", ")} }`;
+  }
+  return JSON.stringify(value) ?? String(value);
+}
+
+// Insert values and update sets arrive wrapped in drizzle Params; matching needs the raw values
+export function unwrapParams(values: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    result[key] = is(value, Param) ? value.value : value;
+  }
+  return result;
+}
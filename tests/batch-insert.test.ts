@@ -0,0 +1,112 @@
+// ABOUTME: Tests for multi-row insert matching and per-row dynamic responses
+// ABOUTME: Verifies .withRows(), batch-wide column matching and row-aware .respondWith() callbacks
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+function userBatch(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    name: `User ${i + 1}`,
+    email: `user${i + 1}@test.com`,
+  }));
+}
+
+describe("batch inserts", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb());
+  });
+
+  describe(".withRows()", () => {
+    it("should match an insert with the expected number of rows", async () => {
+      mock.onInsert(schema.users).withRows(50).respond({ rowCount: 50 });
+
+      const result = await db.insert(schema.users).values(userBatch(50));
+
+      expect(result).toEqual({ rowCount: 50 });
+    });
+
+    it("should not match a different number of rows", async () => {
+      mock.onInsert(schema.users).withRows(50).respond({ rowCount: 50 });
+
+      await expect(db.insert(schema.users).values(userBatch(1))).rejects.toThrow(
+        /No mock registered[\s\S]*rows: 50/
+      );
+    });
+
+    it("should win over a plain insert mock", async () => {
+      mock.onInsert(schema.users).withRows(2).respond("batch of two");
+      mock.onInsert(schema.users).respond("any insert");
+
+      expect(await db.insert(schema.users).values(userBatch(2))).toBe("batch of two");
+      expect(await db.insert(schema.users).values(userBatch(3))).toBe("any insert");
+    });
+  });
+
+  describe("column matching across rows", () => {
+    it("should require every row to contain the expected columns", async () => {
+      mock
+        .onInsert(schema.users)
+        .values({ name: "x", email: "x", createdAt: new Date() })
+        .respond({ rowCount: 2 });
+
+      await expect(
+        db.insert(schema.users).values([
+          { name: "Alice", email: "a@test.com", createdAt: new Date() },
+          { name: "Bob", email: "b@test.com" },
+        ])
+      ).rejects.toThrow(/No mock registered/);
+    });
+
+    it("should match when every row contains the expected columns", async () => {
+      mock
+        .onInsert(schema.users)
+        .values({ name: "x", email: "x" })
+        .respond({ rowCount: 2 });
+
+      const result = await db.insert(schema.users).values([
+        { name: "Alice", email: "a@test.com", createdAt: new Date() },
+        { name: "Bob", email: "b@test.com" },
+      ]);
+
+      expect(result).toEqual({ rowCount: 2 });
+    });
+  });
+
+  describe(".respondWith() with inserted rows", () => {
+    it("should receive every inserted value object", async () => {
+      mock
+        .onInsert(schema.users)
+        .respondWith((_sql, _params, rows) =>
+          rows.map((row, i) => ({ id: i + 1, ...row }))
+        );
+
+      const result = await db
+        .insert(schema.users)
+        .values(userBatch(3))
+        .returning();
+
+      expect(result).toEqual([
+        { id: 1, name: "User 1", email: "user1@test.com" },
+        { id: 2, name: "User 2", email: "user2@test.com" },
+        { id: 3, name: "User 3", email: "user3@test.com" },
+      ]);
+    });
+
+    it("should still pass SQL and params", async () => {
+      mock.onInsert(schema.users).respondWith((sql, params, rows) => ({
+        sql,
+        paramCount: params.length,
+        rowCount: rows.length,
+      }));
+
+      const result = await db.insert(schema.users).values(userBatch(2));
+
+      expect(result).toMatchObject({ paramCount: 4, rowCount: 2 });
+      expect((result as any).sql).toContain('insert into "users"');
+    });
+  });
+});
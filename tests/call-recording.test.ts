@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { eq } from "drizzle-orm";
+import { eq, sql } from "drizzle-orm";
 import { createTestDb } from "./helpers.js";
 import * as schema from "./schema.js";
 
@@ -43,6 +43,91 @@ describe("call recording", () => {
     expect(mock.calls).toHaveLength(1);
   });
 
+  describe("call details", () => {
+    it("should record the operation, table and column keys", async () => {
+      mock.onInsert(schema.users).respond([]);
+
+      await db.insert(schema.users).values({ name: "Alice", email: "alice@test.com" });
+
+      expect(mock.calls[0]).toMatchObject({
+        operation: "insert",
+        tableName: "users",
+        tableSchema: undefined,
+        columnKeys: ["name", "email"],
+        values: [{ name: "Alice", email: "alice@test.com" }],
+      });
+    });
+
+    it("should record the update set", async () => {
+      mock.onUpdate(schema.users).respond([]);
+
+      await db.update(schema.users).set({ name: "Bob" }).where(eq(schema.users.id, 1));
+
+      expect(mock.calls[0]).toMatchObject({ operation: "update", set: { name: "Bob" } });
+    });
+
+    it("should record the matched mock and returned data", async () => {
+      const rows = [{ id: 1, name: "Alice" }];
+      const handle = mock.onSelect(schema.users).respond(rows);
+
+      await db.select().from(schema.users);
+
+      const [call] = mock.calls;
+      expect(call.outcome).toBe("data");
+      expect(call.result).toBe(rows);
+      expect(call.handle).toBe(handle);
+      expect(call.entry?.handle).toBe(handle);
+      expect(call.entry?.matcher).toMatchObject({ type: "structural", operation: "select", tableName: "users" });
+    });
+
+    it("should record errors thrown by the mock", async () => {
+      const error = new Error("DB down");
+      mock.onSelect(schema.users).throw(error);
+
+      await expect(db.select().from(schema.users)).rejects.toThrow("DB down");
+
+      expect(mock.calls[0]).toMatchObject({ outcome: "threw", error });
+      expect(mock.calls[0].result).toBeUndefined();
+    });
+
+    it("should record errors thrown by a response function", async () => {
+      mock.onSelect(schema.users).respondWith(async () => {
+        throw new Error("Timeout");
+      });
+
+      await expect(db.select().from(schema.users)).rejects.toThrow("Timeout");
+
+      expect(mock.calls[0].outcome).toBe("threw");
+    });
+
+    it("should mark queries no mock matched as unmatched", async () => {
+      await expect(db.select().from(schema.users)).rejects.toThrow(/No mock registered/);
+
+      const [call] = mock.calls;
+      expect(call.outcome).toBe("unmatched");
+      expect(call.entry).toBeUndefined();
+      expect(call.error).toBeInstanceOf(Error);
+    });
+
+    it("should leave table details unset for raw SQL", async () => {
+      mock.onSqlContaining("select 1").respond([]);
+
+      await db.execute(sql`select 1`);
+
+      expect(mock.calls[0].operation).toBeUndefined();
+      expect(mock.calls[0].tableName).toBeUndefined();
+      expect(mock.calls[0].outcome).toBe("data");
+    });
+
+    it("should leave the transaction id unset outside transactions", async () => {
+      mock.onSelect(schema.users).respond([]);
+
+      await db.select().from(schema.users);
+
+      expect(mock.calls[0].transactionId).toBeUndefined();
+    });
+  });
+
   describe("mock handles", () => {
     it("should return a handle from .respond()", async () => {
       const handle = mock
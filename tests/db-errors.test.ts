@@ -0,0 +1,142 @@
+// ABOUTME: Tests for the dbErrors factories and the driver-shaped errors mocks throw from them
+// ABOUTME: Covers constraint violations, connection and timeout errors on Postgres, MySQL and SQLite drivers
+
+import { describe, it, expect } from "vitest";
+import { drizzle as drizzlePg } from "drizzle-orm/node-postgres";
+import { drizzle as drizzleMysql } from "drizzle-orm/mysql2";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { int, mysqlTable, varchar } from "drizzle-orm/mysql-core";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { dbErrors, DbError, mockDatabase } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+const myUsers = mysqlTable("users", {
+  id: int("id").primaryKey().autoincrement(),
+  email: varchar("email", { length: 255 }).notNull().unique(),
+});
+
+const sqlUsers = sqliteTable("users", {
+  id: integer("id").primaryKey(),
+  email: text("email").notNull().unique(),
+});
+
+// What inserting into users throws when the mock throws `error`
+async function pgError(error: DbError): Promise<any> {
+  const { db, mock } = createTestDb();
+  mock.onInsert(schema.users).throw(error);
+  return db.insert(schema.users).values({ name: "Alice", email: "alice@test.com" }).catch((e) => e);
+}
+
+async function mysqlError(error: DbError): Promise<any> {
+  const db = drizzleMysql.mock({ mode: "default" });
+  mockDatabase(db).onInsert(myUsers).throw(error);
+  return db.insert(myUsers).values({ email: "alice@test.com" }).catch((e) => e);
+}
+
+async function sqliteError(error: DbError): Promise<any> {
+  const db = drizzleSqlite.mock();
+  mockDatabase(db).onInsert(sqlUsers).throw(error);
+  return db.insert(sqlUsers).values({ email: "alice@test.com" }).catch((e) => e);
+}
+
+describe("dbErrors", () => {
+  describe("uniqueViolation", () => {
+    it("should build a pg DatabaseError with the constraint and key", async () => {
+      const error = await pgError(dbErrors.uniqueViolation({ table: schema.users, column: "email", value: "alice@test.com" }));
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toMatchObject({
+        name: "error",
+        severity: "ERROR",
+        code: "23505",
+        message: 'duplicate key value violates unique constraint "users_email_unique"',
+        detail: "Key (email)=(alice@test.com) already exists.",
+        table: "users",
+        constraint: "users_email_unique",
+      });
+    });
+
+    it("should name the primary key constraint for primary key columns", async () => {
+      const error = await pgError(dbErrors.uniqueViolation({ table: schema.users, column: "id", value: 1 }));
+
+      expect(error).toMatchObject({ constraint: "users_pkey", detail: "Key (id)=(1) already exists." });
+    });
+
+    it("should build mysql2 and SQLite errors", async () => {
+      expect(await mysqlError(dbErrors.uniqueViolation({ table: myUsers, column: "email", value: "alice@test.com" }))).toMatchObject({
+        code: "ER_DUP_ENTRY",
+        errno: 1062,
+        sqlState: "23000",
+        sqlMessage: "Duplicate entry 'alice@test.com' for key 'users.users_email_unique'",
+      });
+      expect(await sqliteError(dbErrors.uniqueViolation({ table: sqlUsers, column: "email" }))).toMatchObject({
+        name: "SqliteError",
+        code: "SQLITE_CONSTRAINT_UNIQUE",
+        message: "UNIQUE constraint failed: users.email",
+      });
+    });
+
+    it("should reject columns the table doesn't have", () => {
+      expect(() => dbErrors.uniqueViolation({ table: schema.users, column: "emial" as "email" })).toThrow(
+        'dbErrors.uniqueViolation(): table "users" has no column "emial"'
+      );
+    });
+  });
+
+  it("should name foreign keys after the column's references()", async () => {
+    const { db, mock } = createTestDb();
+    mock.onInsert(schema.posts).throw(dbErrors.foreignKeyViolation({ table: schema.posts, column: "authorId", value: 9 }));
+
+    const error = await db.insert(schema.posts).values({ title: "Hi", body: "...", authorId: 9 }).catch((e) => e);
+
+    expect(error).toMatchObject({
+      code: "23503",
+      message: 'insert or update on table "posts" violates foreign key constraint "posts_author_id_users_id_fk"',
+      detail: 'Key (author_id)=(9) is not present in table "users".',
+      constraint: "posts_author_id_users_id_fk",
+    });
+  });
+
+  it("should build not-null and check violations", async () => {
+    expect(await pgError(dbErrors.notNullViolation({ table: schema.users, column: "name" }))).toMatchObject({
+      code: "23502",
+      message: 'null value in column "name" of relation "users" violates not-null constraint',
+      column: "name",
+    });
+    expect(await mysqlError(dbErrors.notNullViolation({ table: myUsers, column: "email" }))).toMatchObject({
+      errno: 1048,
+      sqlMessage: "Column 'email' cannot be null",
+    });
+    expect(await sqliteError(dbErrors.checkViolation({ table: sqlUsers, constraint: "email_check" }))).toMatchObject({
+      code: "SQLITE_CONSTRAINT_CHECK",
+      message: "CHECK constraint failed: email_check",
+    });
+  });
+
+  it("should report refused connections as socket errors on network drivers", async () => {
+    expect(await pgError(dbErrors.connectionRefused())).toMatchObject({
+      message: "connect ECONNREFUSED 127.0.0.1:5432",
+      code: "ECONNREFUSED",
+      syscall: "connect",
+      port: 5432,
+    });
+    expect(await mysqlError(dbErrors.connectionRefused())).toMatchObject({ code: "ECONNREFUSED", port: 3306, fatal: true });
+    expect(await sqliteError(dbErrors.connectionRefused())).toMatchObject({ code: "SQLITE_CANTOPEN" });
+  });
+
+  it("should build statement timeouts", async () => {
+    expect(await pgError(dbErrors.queryTimeout())).toMatchObject({
+      code: "57014",
+      message: "canceling statement due to statement timeout",
+    });
+    expect(await mysqlError(dbErrors.queryTimeout())).toMatchObject({ code: "ER_QUERY_TIMEOUT", errno: 3024 });
+  });
+
+  it("should throw the driver's error unwrapped when drizzle doesn't wrap query errors", async () => {
+    const db = drizzlePg.mock();
+    mockDatabase(db).onSql(/select/).throw(dbErrors.queryTimeout());
+
+    await expect(db.select().from(schema.users)).rejects.toMatchObject({ name: "error", code: "57014" });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { eq, relations } from "drizzle-orm";
+import { and, eq, relations } from "drizzle-orm";
 import { pgTable, serial as pgSerial, text as pgText, integer as pgInteger } from "drizzle-orm/pg-core";
 import { mysqlTable, serial as mySerial, varchar, int } from "drizzle-orm/mysql-core";
 import { sqliteTable, integer as sqliteInteger, text as sqliteText } from "drizzle-orm/sqlite-core";
@@ -387,3 +387,66 @@ describe("libsql driver", async () => {
     expect(result).toEqual([{ id: 1, name: "Alice", email: "a@test.com" }]);
   });
 });
+
+// -- Matching semantics shared by every dialect --
+
+describe("matching semantics across dialects", async () => {
+  const { drizzle: pgDrizzle } = await import("drizzle-orm/node-postgres");
+  const { drizzle: myDrizzle } = await import("drizzle-orm/mysql2");
+  const { drizzle: sqliteDrizzle } = await import("drizzle-orm/better-sqlite3");
+
+  const dialects = [
+    { name: "postgres", users: pgUsers, create: () => pgDrizzle.mock() },
+    { name: "mysql", users: myUsers, create: () => myDrizzle.mock({ mode: "default" }) },
+    { name: "sqlite", users: sqlUsers, create: () => sqliteDrizzle.mock() },
+  ] as const;
+
+  describe.each(dialects)("$name", ({ users, create }) => {
+    let db: any;
+    let mock: MockController<any>;
+
+    beforeEach(() => {
+      db = create();
+      mock = mockDatabase(db);
+    });
+
+    it("should match Postgres-style substrings", async () => {
+      mock.onSqlContaining('from "users" where "users"."id" = $1').respond(["contains"]);
+      expect(await db.select().from(users).where(eq(users.id, 1))).toEqual(["contains"]);
+    });
+
+    it("should match MySQL-style substrings", async () => {
+      mock.onSqlContaining("from `users` where `users`.`id` = ?").respond(["contains"]);
+      expect(await db.select().from(users).where(eq(users.id, 1))).toEqual(["contains"]);
+    });
+
+    it("should ignore keyword casing in substrings", async () => {
+      mock.onSqlContaining('SELECT "id"').respond(["contains"]);
+      expect(await db.select().from(users)).toEqual(["contains"]);
+    });
+
+    it("should match Postgres-style regex patterns", async () => {
+      mock.onSql(/from "users"/).respond(["pattern"]);
+      expect(await db.select().from(users)).toEqual(["pattern"]);
+    });
+
+    it("should match containingSql() fragments", async () => {
+      mock.onSelect(users).containingSql(eq(users.id, 1)).respond([{ name: "one" }]);
+      mock.onSelect(users).containingSql(eq(users.id, 2)).respond([{ name: "two" }]);
+
+      expect(await db.select().from(users).where(eq(users.id, 2))).toEqual([{ name: "two" }]);
+      expect(await db.select().from(users).where(eq(users.id, 1))).toEqual([{ name: "one" }]);
+    });
+
+    it("should locate fragment params after earlier placeholders", async () => {
+      mock.onSelect(users).containingSql(eq(users.name, "Alice")).respond([{ name: "alice" }]);
+
+      const result = await db
+        .select()
+        .from(users)
+        .where(and(eq(users.id, 1), eq(users.name, "Alice")));
+
+      expect(result).toEqual([{ name: "alice" }]);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+// ABOUTME: Tests for defineFactory() and mock.factory(), which build fixture rows from table metadata
+// ABOUTME: Verifies sequences, generated value types, overrides, seeding and use in mock responses
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { bigserial, customType, pgEnum, pgTable, uuid, varchar, boolean, numeric, json, date } from "drizzle-orm/pg-core";
+import { defineFactory } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+const role = pgEnum("role", ["admin", "member", "guest"]);
+const accounts = pgTable("accounts", {
+  id: uuid("id").primaryKey(),
+  handle: varchar("handle", { length: 8 }).notNull(),
+  role: role("role").notNull(),
+  active: boolean("active").notNull(),
+  balance: numeric("balance"),
+  settings: json("settings"),
+  openedOn: date("opened_on"),
+});
+
+describe("factories", () => {
+  it("should count serial ids up from 1", () => {
+    const users = defineFactory(schema.users).build(3);
+
+    expect(users.map((user) => user.id)).toEqual([1, 2, 3]);
+  });
+
+  it("should count bigint serial ids up from 1n", () => {
+    const events = pgTable("events", { id: bigserial("id", { mode: "bigint" }).primaryKey() });
+
+    expect(defineFactory(events).build(2).map((event) => event.id)).toEqual([1n, 2n]);
+  });
+
+  it("should generate values matching each column's type", () => {
+    const [user] = defineFactory(schema.users).build(1);
+    const [account] = defineFactory(accounts).build(1);
+
+    expect(user).toEqual({
+      id: 1,
+      name: "name 1",
+      email: "users1@example.com",
+      createdAt: expect.any(Date),
+    });
+    expect(account.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(account.handle.length).toBeLessThanOrEqual(8);
+    expect(["admin", "member", "guest"]).toContain(account.role);
+    expect(typeof account.active).toBe("boolean");
+    expect(account.balance).toMatch(/^\d+\.\d{2}$/);
+    expect(account.settings).toEqual({});
+    expect(account.openedOn).toBe("2024-01-01");
+  });
+
+  it("should produce the same rows for the same seed", () => {
+    expect(defineFactory(accounts).build(3)).toEqual(defineFactory(accounts).build(3));
+    expect(defineFactory(accounts, undefined, { seed: 7 }).build(3)).not.toEqual(defineFactory(accounts).build(3));
+  });
+
+  it("should apply overrides as values or per row", () => {
+    const factory = defineFactory(schema.users, (i) => ({ name: `User ${i}` }));
+
+    const rows = factory.build(2, { email: "same@test.com" });
+
+    expect(rows.map((row) => [row.name, row.email])).toEqual([
+      ["User 0", "same@test.com"],
+      ["User 1", "same@test.com"],
+    ]);
+  });
+
+  it("should build single rows that continue the sequence", () => {
+    const factory = defineFactory(schema.posts, { authorId: 1 });
+
+    expect(factory.one().id).toBe(1);
+    expect(factory.one()).toMatchObject({ id: 2, authorId: 1 });
+  });
+
+  it("should null nullable columns it can't generate and ask for the rest", () => {
+    const point = customType<{ data: string }>({ dataType: () => "point" });
+    const places = pgTable("places", { spot: point("spot"), center: point("center").notNull() });
+
+    expect(() => defineFactory(places).build(1)).toThrow(
+      'Cannot generate a value for PgCustomColumn column "center" on table "places". Pass it in the factory\'s overrides.'
+    );
+    expect(defineFactory(places, { center: "(0,0)" }).one()).toEqual({ spot: null, center: "(0,0)" });
+  });
+
+  describe("mock.factory()", () => {
+    let db: ReturnType<typeof createTestDb>["db"];
+    let mock: ReturnType<typeof createTestDb>["mock"];
+
+    beforeEach(() => {
+      ({ db, mock } = createTestDb({ validateResponses: true }));
+    });
+
+    it("should plug into respond() and pass schema validation", async () => {
+      const users = mock.factory(schema.users).build(2);
+      mock.onSelect(schema.users).respond(users);
+      mock.onFindMany(schema.users).respond(users);
+
+      expect(await db.select().from(schema.users)).toEqual(users);
+      expect(await db.query.users.findMany()).toEqual(users);
+    });
+
+    it("should keep counting across factories for the same table until reset()", () => {
+      mock.factory(schema.users).build(2);
+
+      expect(mock.factory(schema.users, { name: "Carol" }).one()).toMatchObject({ id: 3, name: "Carol" });
+
+      mock.reset();
+
+      expect(mock.factory(schema.users).one().id).toBe(1);
+    });
+  });
+});
@@ -1,9 +1,9 @@
 import { drizzle } from "drizzle-orm/node-postgres";
-import { mockDatabase } from "../src/index.js";
+import { mockDatabase, type MockDatabaseOptions } from "../src/index.js";
 import * as schema from "./schema.js";
 
-export function createTestDb() {
+export function createTestDb<const TOptions extends MockDatabaseOptions = {}>(options?: TOptions) {
   const db = drizzle.mock({ schema });
-  const mock = mockDatabase(db);
+  const mock = mockDatabase(db, options);
   return { db, mock };
 }
@@ -0,0 +1,163 @@
+// ABOUTME: Tests for join-aware select matching and per-table join fixtures
+// ABOUTME: Verifies .joining()/.leftJoin() constraints and assembly of nested join results
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { eq } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+const users = [
+  { id: 1, name: "Alice", email: "alice@test.com", createdAt: null },
+  { id: 2, name: "Bob", email: "bob@test.com", createdAt: null },
+];
+const posts = [
+  { id: 10, title: "Hello", body: "...", authorId: 1 },
+  { id: 11, title: "Orphan", body: "...", authorId: 9 },
+];
+
+describe("joins", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb());
+  });
+
+  describe("matching", () => {
+    it("should only match selects that join the table", async () => {
+      mock.onSelect(schema.posts).joining(schema.users).respond([{ joined: true }]);
+      mock.onSelect(schema.posts).respond([{ title: "plain" }]);
+
+      const joined = await db
+        .select()
+        .from(schema.posts)
+        .innerJoin(schema.users, eq(schema.posts.authorId, schema.users.id));
+      const plain = await db.select().from(schema.posts);
+
+      expect(joined).toEqual([{ joined: true }]);
+      expect(plain).toEqual([{ title: "plain" }]);
+    });
+
+    it("should prefer a join-constrained mock over a plain one registered later", async () => {
+      mock.onSelect(schema.posts).joining(schema.users).respond([{ joined: true }]);
+      mock.onSelect(schema.posts).respond([{ title: "plain" }]);
+
+      const result = await db
+        .select()
+        .from(schema.posts)
+        .leftJoin(schema.users, eq(schema.posts.authorId, schema.users.id));
+
+      expect(result).toEqual([{ joined: true }]);
+    });
+
+    it("should require a left join for .leftJoin()", async () => {
+      mock.onSelect(schema.posts).leftJoin(schema.users).respond([]);
+
+      await expect(
+        db.select().from(schema.posts).innerJoin(schema.users, eq(schema.posts.authorId, schema.users.id))
+      ).rejects.toThrow(/join: expected a left join on "users"/);
+    });
+
+    it("should match a table joined under an alias", async () => {
+      const author = alias(schema.users, "author");
+      mock.onSelect(schema.posts).joining(schema.users).respond([]);
+
+      await expect(
+        db.select().from(schema.posts).innerJoin(author, eq(schema.posts.authorId, author.id))
+      ).resolves.toEqual([]);
+    });
+
+    it("should only allow join constraints on select mocks", () => {
+      expect(() => mock.onInsert(schema.posts).joining(schema.users)).toThrow(
+        ".joining() can only be used with onSelect() mocks"
+      );
+    });
+  });
+
+  describe("per-table fixtures", () => {
+    it("should assemble inner join results keyed by table", async () => {
+      mock.onSelect(schema.posts).rows({ posts, users });
+
+      const result = await db
+        .select()
+        .from(schema.posts)
+        .innerJoin(schema.users, eq(schema.posts.authorId, schema.users.id));
+
+      expect(result).toEqual([{ posts: posts[0], users: users[0] }]);
+    });
+
+    it("should null out tables a left join didn't match", async () => {
+      mock.onSelect(schema.posts).rows({ posts, users });
+
+      const result = await db
+        .select()
+        .from(schema.posts)
+        .leftJoin(schema.users, eq(schema.posts.authorId, schema.users.id));
+
+      expect(result).toEqual([
+        { posts: posts[0], users: users[0] },
+        { posts: posts[1], users: null },
+      ]);
+    });
+
+    it("should keep unmatched rows from the joined table in a right join", async () => {
+      mock.onSelect(schema.posts).rows({ posts, users });
+
+      const result = await db
+        .select({ title: schema.posts.title, name: schema.users.name })
+        .from(schema.posts)
+        .rightJoin(schema.users, eq(schema.posts.authorId, schema.users.id));
+
+      expect(result).toEqual([
+        { title: "Hello", name: "Alice" },
+        { title: null, name: "Bob" },
+      ]);
+    });
+
+    it("should apply where and a custom selection across tables", async () => {
+      mock.onSelect(schema.posts).rows({ posts, users });
+
+      const result = await db
+        .select({ title: schema.posts.title, author: { name: schema.users.name } })
+        .from(schema.posts)
+        .leftJoin(schema.users, eq(schema.posts.authorId, schema.users.id))
+        .where(eq(schema.users.name, "Alice"));
+
+      expect(result).toEqual([{ title: "Hello", author: { name: "Alice" } }]);
+    });
+
+    it("should key aliased tables by their alias", async () => {
+      const author = alias(schema.users, "author");
+      mock.onSelect(schema.posts).rows({ posts, author: users });
+
+      const result = await db
+        .select({ title: schema.posts.title, author: author.name })
+        .from(schema.posts)
+        .innerJoin(author, eq(schema.posts.authorId, author.id));
+
+      expect(result).toEqual([{ title: "Hello", author: "Alice" }]);
+    });
+
+    it("should name the table a fixture is missing for", async () => {
+      mock.onSelect(schema.posts).rows({ posts });
+
+      await expect(
+        db.select().from(schema.posts).innerJoin(schema.users, eq(schema.posts.authorId, schema.users.id))
+      ).rejects.toThrow(/\.rows\(\) has no fixtures for "users"/);
+    });
+
+    it("should reject columns of tables the query doesn't join", async () => {
+      const author = alias(schema.users, "author");
+      mock.onSelect(schema.posts).rows({ posts, author: users });
+
+      await expect(
+        db
+          .select()
+          .from(schema.posts)
+          .innerJoin(author, eq(schema.posts.authorId, author.id))
+          .where(eq(schema.users.id, 1))
+      ).rejects.toThrow(`Cannot resolve column "id" of table "users": the query doesn't select from or join that table`);
+    });
+  });
+});
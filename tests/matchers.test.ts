@@ -0,0 +1,240 @@
+// ABOUTME: Tests for the Vitest matchers registered through expect.extend(drizzleMatchers)
+// ABOUTME: Verifies per-table assertions, call counts, ordering and failure messages
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzleMatchers } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+expect.extend(drizzleMatchers);
+
+describe("drizzle matchers", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb());
+  });
+
+  describe("toHaveExecutedSelect", () => {
+    it("should pass when a select ran on the table", async () => {
+      mock.onSelect(schema.users).respond([]);
+
+      await db.select().from(schema.users);
+
+      expect(mock).toHaveExecutedSelect(schema.users);
+      expect(mock).not.toHaveExecutedSelect(schema.posts);
+    });
+
+    it("should count relational queries as selects", async () => {
+      mock.onFindMany(schema.users).respond([]);
+
+      await db.query.users.findMany();
+
+      expect(mock).toHaveExecutedSelect(schema.users);
+    });
+
+    it("should show the recorded queries when it fails", async () => {
+      mock.onSelect(schema.users).respond([]);
+
+      await db.select().from(schema.users).where(eq(schema.users.id, 7));
+
+      expect(() => expect(mock).toHaveExecutedSelect(schema.posts)).toThrow(
+        'Expected a select on "posts", but none was executed.\n\n' +
+          "Recorded queries:\n" +
+          '  1. select "id", "name", "email", "created_at" from "users" where "users"."id" = $1\n' +
+          "     params: [7]"
+      );
+    });
+
+    it("should report when nothing was recorded", () => {
+      expect(() => expect(mock).toHaveExecutedSelect(schema.users)).toThrow("Recorded queries: (none)");
+    });
+
+    it("should reject values other than a mock controller", () => {
+      expect(() => expect({ calls: [] }).toHaveExecutedSelect(schema.users)).toThrow(
+        "toHaveExecutedSelect() expects the MockController returned by mockDatabase()"
+      );
+    });
+  });
+
+  describe("toHaveInsertedInto", () => {
+    beforeEach(() => {
+      mock.onInsert(schema.users).respond([]);
+    });
+
+    it("should pass when an insert ran on the table", async () => {
+      await db.insert(schema.users).values({ name: "Alice", email: "alice@test.com" });
+
+      expect(mock).toHaveInsertedInto(schema.users);
+      expect(mock).not.toHaveInsertedInto(schema.posts);
+    });
+
+    it("should match a subset of the inserted values", async () => {
+      await db.insert(schema.users).values({ name: "Alice", email: "alice@test.com" });
+
+      expect(mock).toHaveInsertedInto(schema.users, { email: "alice@test.com" });
+      expect(mock).toHaveInsertedInto(schema.users, { name: expect.stringMatching(/^Al/) });
+      expect(mock).not.toHaveInsertedInto(schema.users, { email: "bob@test.com" });
+    });
+
+    it("should match any row of a batch insert", async () => {
+      await db.insert(schema.users).values([
+        { name: "Alice", email: "alice@test.com" },
+        { name: "Bob", email: "bob@test.com" },
+      ]);
+
+      expect(mock).toHaveInsertedInto(schema.users, { name: "Bob" });
+    });
+
+    it("should include the expected values in the failure message", async () => {
+      await db.insert(schema.users).values({ name: "Alice", email: "alice@test.com" });
+
+      expect(() => expect(mock).toHaveInsertedInto(schema.users, { email: "bob@test.com" })).toThrow(
+        'Expected an insert into "users" with { email: "bob@test.com" }, but none was executed.\n\n' +
+          "Recorded queries:\n" +
+          '  1. insert into "users" ("id", "name", "email", "created_at") values (default, $1, $2, default)\n' +
+          '     params: ["Alice", "alice@test.com"]'
+      );
+    });
+  });
+
+  describe("toHaveUpdated", () => {
+    beforeEach(() => {
+      mock.onUpdate(schema.users).respond([]);
+    });
+
+    it("should check how many times the table was updated", async () => {
+      await db.update(schema.users).set({ name: "Bob" }).where(eq(schema.users.id, 1));
+      await db.update(schema.users).set({ name: "Carol" }).where(eq(schema.users.id, 2));
+
+      expect(mock).toHaveUpdated(schema.users, undefined, { times: 2 });
+      expect(mock).toHaveUpdated(schema.users, { name: "Carol" }, { times: 1 });
+      expect(mock).not.toHaveUpdated(schema.users, undefined, { times: 1 });
+    });
+
+    it("should describe the count mismatch", async () => {
+      await db.update(schema.users).set({ name: "Bob" });
+
+      expect(() => expect(mock).toHaveUpdated(schema.users, undefined, { times: 2 })).toThrow(
+        'Expected an update on "users" to run 2 times, but it ran 1 time.'
+      );
+    });
+  });
+
+  describe("toHaveDeletedFrom", () => {
+    it("should pass when a delete ran on the table", async () => {
+      mock.onDelete(schema.posts).respond([]);
+
+      await db.delete(schema.posts).where(eq(schema.posts.id, 1));
+
+      expect(mock).toHaveDeletedFrom(schema.posts);
+      expect(mock).not.toHaveDeletedFrom(schema.users);
+    });
+
+    it("should describe an unexpected delete", async () => {
+      mock.onDelete(schema.posts).respond([]);
+
+      await db.delete(schema.posts);
+
+      expect(() => expect(mock).not.toHaveDeletedFrom(schema.posts)).toThrow(
+        'Expected no delete from "posts", but found 1.'
+      );
+    });
+  });
+
+  describe("toHaveExecutedInOrder", () => {
+    beforeEach(() => {
+      mock.onSelect(schema.users).respond([]);
+      mock.onInsert(schema.posts).respond([]);
+      mock.onDelete(schema.posts).respond([]);
+    });
+
+    it("should pass when operations ran in order", async () => {
+      await db.select().from(schema.users);
+      await db.insert(schema.posts).values({ title: "Hello", body: "World", authorId: 1 });
+      await db.delete(schema.posts);
+
+      expect(mock).toHaveExecutedInOrder([
+        { operation: "select", table: schema.users },
+        { operation: "delete", table: schema.posts },
+      ]);
+    });
+
+    it("should fail when operations ran out of order", async () => {
+      await db.delete(schema.posts);
+      await db.select().from(schema.users);
+
+      expect(() =>
+        expect(mock).toHaveExecutedInOrder([
+          { operation: "select", table: schema.users },
+          { operation: "delete", table: schema.posts },
+        ])
+      ).toThrow('step 2 (delete on "posts") was not found after the earlier steps');
+    });
+
+    it("should accept mock handles", async () => {
+      const first = mock.onUpdate(schema.users).respond([]);
+      const second = mock.onSelect(schema.posts).respond([]);
+
+      await db.update(schema.users).set({ name: "Bob" });
+      await db.select().from(schema.posts);
+
+      expect(mock).toHaveExecutedInOrder([first, second]);
+      expect(mock).not.toHaveExecutedInOrder([second, first]);
+    });
+  });
+
+  describe("transactions", () => {
+    beforeEach(() => {
+      mock.onUpdate(schema.users).affects(1);
+    });
+
+    it("should only count calls in the requested transaction scope", async () => {
+      await db.update(schema.users).set({ name: "Outside" });
+      await db.transaction(
+        async (tx) => {
+          await tx.transaction((sp) => sp.update(schema.users).set({ name: "Inside" }));
+        },
+        { isolationLevel: "serializable" }
+      );
+
+      expect(mock).toHaveUpdated(schema.users, { name: "Outside" }, { inTransaction: false });
+      expect(mock).not.toHaveUpdated(schema.users, { name: "Outside" }, { inTransaction: true });
+      expect(mock).toHaveUpdated(schema.users, { name: "Inside" }, { inTransaction: { isolationLevel: "serializable" } });
+      expect(mock).toHaveUpdated(schema.users, undefined, { inTransaction: true, times: 1 });
+      expect(() =>
+        expect(mock).toHaveUpdated(schema.users, undefined, { inTransaction: { isolationLevel: "read committed" } })
+      ).toThrow('Expected an update on "users" inside a transaction with { isolationLevel: "read committed" }, but none was executed.');
+    });
+
+    it("should assert on committed and rolled back transactions", async () => {
+      await db.transaction(async () => {}, { isolationLevel: "serializable" });
+      await db.transaction(async (tx) => {
+        tx.rollback();
+      });
+
+      expect(mock).toHaveCommittedTransaction();
+      expect(mock).toHaveCommittedTransaction({ isolationLevel: "serializable" }, { times: 1 });
+      expect(mock).toHaveRolledBackTransaction(undefined, { times: 1 });
+      expect(mock).not.toHaveRolledBackTransaction({ isolationLevel: "serializable" });
+    });
+
+    it("should list the recorded transactions when it fails", async () => {
+      await db.transaction(async () => {}, { isolationLevel: "read committed" });
+      await db
+        .transaction(async () => {
+          throw new Error("boom");
+        })
+        .catch(() => {});
+
+      expect(() => expect(mock).toHaveCommittedTransaction({ isolationLevel: "serializable" })).toThrow(
+        'Expected a committed transaction with { isolationLevel: "serializable" }, but none was found.\n\n' +
+          "Recorded transactions:\n" +
+          '  1. transaction 1 { isolationLevel: "read committed" }: committed\n' +
+          "  2. transaction 2: rolled back (threw Error: boom)"
+      );
+    });
+  });
+});
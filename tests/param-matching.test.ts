@@ -0,0 +1,156 @@
+// ABOUTME: Tests for deep and asymmetric param matching on SQL-based mocks
+// ABOUTME: Verifies .withParams() across matcher types and deep comparison in .withExactParams() and .containingSql()
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { and, eq } from "drizzle-orm";
+import { customType, pgTable, serial, text } from "drizzle-orm/pg-core";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { anything, mockDatabase } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+const bytea = customType<{ data: Buffer }>({
+  dataType: () => "bytea",
+  toDriver: (value) => Buffer.from(value),
+});
+
+const files = pgTable("files", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  content: bytea("content").notNull(),
+});
+
+describe("param matching", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb());
+  });
+
+  describe(".withParams()", () => {
+    it("should accept asymmetric matchers and anything()", async () => {
+      mock
+        .on(
+          db
+            .select()
+            .from(schema.users)
+            .where(and(eq(schema.users.id, 1), eq(schema.users.name, "x"), eq(schema.users.email, "x")))
+        )
+        .withParams([expect.any(Number), anything(), "active@test.com"])
+        .respond([{ id: 7 }]);
+
+      const result = await db
+        .select()
+        .from(schema.users)
+        .where(and(eq(schema.users.id, 7), eq(schema.users.name, "Anyone"), eq(schema.users.email, "active@test.com")));
+
+      expect(result).toEqual([{ id: 7 }]);
+    });
+
+    it("should reject params that don't satisfy the matchers", async () => {
+      mock
+        .on(db.select().from(schema.users).where(eq(schema.users.id, 1)))
+        .withParams([expect.any(String)])
+        .respond([]);
+
+      await expect(
+        db.select().from(schema.users).where(eq(schema.users.id, 1))
+      ).rejects.toThrow(/No mock registered[\s\S]*params: \[Any<String>\]/);
+    });
+
+    it("should require the same number of params", async () => {
+      mock.onSqlContaining('"users"').withParams([anything()]).respond([]);
+
+      await expect(db.select().from(schema.users)).rejects.toThrow(/No mock registered/);
+    });
+
+    it("should work with partial matchers", async () => {
+      mock
+        .on(db.select().from(schema.users))
+        .partial()
+        .withParams([expect.any(Number)])
+        .respond([{ id: 1 }]);
+
+      const result = await db.select().from(schema.users).where(eq(schema.users.id, 3));
+
+      expect(result).toEqual([{ id: 1 }]);
+    });
+
+    it("should work with pattern matchers", async () => {
+      mock.onSql(/from "users"/).withParams([42]).respond(["forty-two"]);
+      mock.onSql(/from "users"/).respond(["other"]);
+
+      expect(await db.select().from(schema.users).where(eq(schema.users.id, 42))).toEqual(["forty-two"]);
+      expect(await db.select().from(schema.users).where(eq(schema.users.id, 1))).toEqual(["other"]);
+    });
+
+    it("should work with substring matchers", async () => {
+      mock.onSqlContaining('"email" = $1').withParams([expect.stringMatching(/@test\.com$/)]).respond(["match"]);
+
+      expect(
+        await db.select().from(schema.users).where(eq(schema.users.email, "a@test.com"))
+      ).toEqual(["match"]);
+      await expect(
+        db.select().from(schema.users).where(eq(schema.users.email, "a@example.com"))
+      ).rejects.toThrow(/No mock registered/);
+    });
+
+    it("should not be allowed on structural matchers", () => {
+      expect(() => mock.onSelect(schema.users).withParams([])).toThrow(
+        /cannot be used with structural matchers/
+      );
+    });
+  });
+
+  describe("deep equality", () => {
+    it("should compare Buffer params by content in .withExactParams()", async () => {
+      const filesDb = drizzle.mock();
+      const filesMock = mockDatabase(filesDb);
+
+      filesMock
+        .on(filesDb.insert(files).values({ name: "a.txt", content: Buffer.from("hello") }))
+        .withExactParams()
+        .respond({ rowCount: 1 });
+
+      await expect(
+        filesDb.insert(files).values({ name: "a.txt", content: Buffer.from("hello") })
+      ).resolves.toEqual({ rowCount: 1 });
+
+      await expect(
+        filesDb.insert(files).values({ name: "a.txt", content: Buffer.from("world") })
+      ).rejects.toThrow(/No mock registered/);
+    });
+
+    it("should compare .containingSql() params deeply", async () => {
+      const filesDb = drizzle.mock();
+      const filesMock = mockDatabase(filesDb);
+
+      filesMock
+        .on((d) => d.select().from(files))
+        .containingSql(eq(files.content, Buffer.from("hello")))
+        .respond([{ id: 1 }]);
+
+      const result = await filesDb
+        .select()
+        .from(files)
+        .where(eq(files.content, Buffer.from("hello")));
+
+      expect(result).toEqual([{ id: 1 }]);
+    });
+
+    it("should accept matchers inside .containingSql() fragments", async () => {
+      mock
+        .onSelect(schema.users)
+        .containingSql(eq(schema.users.name, expect.stringContaining("Ali")))
+        .respond([{ id: 1 }]);
+
+      const result = await db
+        .select()
+        .from(schema.users)
+        .where(eq(schema.users.name, "Alice"));
+
+      expect(result).toEqual([{ id: 1 }]);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+// ABOUTME: Tests for the projectSelections option, which fits full-row fixtures to each select
+// ABOUTME: Verifies partial selects, aliases, nested objects, joins and fixtures already in shape
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { eq, sql } from "drizzle-orm";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+const alice = { id: 1, name: "Alice", email: "alice@test.com", createdAt: new Date("2024-01-01") };
+const post = { id: 10, title: "Hello", body: "...", authorId: 1 };
+
+describe("projectSelections", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb({ projectSelections: true }));
+  });
+
+  it("should project a full row onto a partial select with aliases", async () => {
+    mock.onSelect(schema.users).respond([alice]);
+
+    const result = await db.select({ id: schema.users.id, label: schema.users.name }).from(schema.users);
+
+    expect(result).toEqual([{ id: 1, label: "Alice" }]);
+  });
+
+  it("should build nested objects from the selection", async () => {
+    mock.onSelect(schema.users).respond([alice]);
+
+    const result = await db
+      .select({ id: schema.users.id, contact: { name: schema.users.name, email: schema.users.email } })
+      .from(schema.users);
+
+    expect(result).toEqual([{ id: 1, contact: { name: "Alice", email: "alice@test.com" } }]);
+  });
+
+  it("should serve every select from the same fixture", async () => {
+    mock.onSelect(schema.users).respond([alice]);
+
+    const full = await db.select().from(schema.users);
+    const emails = await db.select({ email: schema.users.email }).from(schema.users);
+
+    expect(full).toEqual([alice]);
+    expect(emails).toEqual([{ email: "alice@test.com" }]);
+  });
+
+  it("should read joined columns from fixtures keyed by table name", async () => {
+    mock.onSelect(schema.posts).leftJoin(schema.users).respond([
+      { posts: post, users: alice },
+      { posts: { ...post, id: 11, authorId: 2 }, users: null },
+    ]);
+
+    const result = await db
+      .select({ title: schema.posts.title, author: { name: schema.users.name } })
+      .from(schema.posts)
+      .leftJoin(schema.users, eq(schema.posts.authorId, schema.users.id));
+
+    expect(result).toEqual([
+      { title: "Hello", author: { name: "Alice" } },
+      { title: "Hello", author: null },
+    ]);
+  });
+
+  it("should keep values for SQL fields and fixtures already in the selection's shape", async () => {
+    const labelled = (d: typeof db) =>
+      d.select({ label: schema.users.name, total: sql<number>`count(*)` }).from(schema.users);
+    mock.on(labelled).respond([{ label: "Alice", total: 3 }]);
+
+    const result = await labelled(db);
+
+    expect(result).toEqual([{ label: "Alice", total: 3 }]);
+  });
+
+  it("should project rows from response functions", async () => {
+    mock.onSelect(schema.users).respondWith(() => [alice]);
+
+    const result = await db.select({ name: schema.users.name }).from(schema.users);
+
+    expect(result).toEqual([{ name: "Alice" }]);
+  });
+
+  it("should not project without the option", async () => {
+    const plain = createTestDb();
+    plain.mock.onSelect(schema.users).respond([alice]);
+
+    const result = await plain.db.select({ name: schema.users.name }).from(schema.users);
+
+    expect(result).toEqual([alice]);
+  });
+});
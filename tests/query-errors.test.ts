@@ -0,0 +1,50 @@
+// ABOUTME: Tests for dbErrors on drizzle versions that wrap driver errors in a DrizzleQueryError
+// ABOUTME: Stubs drizzle-orm's DrizzleQueryError so query and transaction failures can be checked for the same shape
+
+import { describe, it, expect, vi } from "vitest";
+import { dbErrors } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+vi.mock("drizzle-orm", async (importOriginal) => {
+  class DrizzleQueryError extends Error {
+    constructor(public query: string, public params: unknown[], public cause?: Error) {
+      super(`Failed query: ${query}\nparams: ${params}`);
+    }
+  }
+  return { ...(await importOriginal<typeof import("drizzle-orm")>()), DrizzleQueryError };
+});
+
+describe("DrizzleQueryError wrapping", () => {
+  it("should wrap errors thrown by query mocks with the query as its cause", async () => {
+    const { db, mock } = createTestDb();
+    mock.onDelete(schema.posts).throw(dbErrors.deadlock());
+
+    const error = await db.delete(schema.posts).catch((e) => e);
+
+    expect(error.constructor.name).toBe("DrizzleQueryError");
+    expect(error).toMatchObject({ query: 'delete from "posts"', params: [] });
+    expect(error.cause).toMatchObject({ name: "error", code: "40P01" });
+  });
+
+  it("should wrap transaction failures the same way, as errors from begin or commit", async () => {
+    const { db, mock } = createTestDb();
+    mock.failNextTransaction();
+    mock.failNextTransaction({ at: "begin", error: dbErrors.connectionRefused() });
+
+    const begin = await db.transaction(async () => {}).catch((e) => e);
+    const commit = await db.transaction(async () => {}).catch((e) => e);
+
+    expect(begin.constructor.name).toBe("DrizzleQueryError");
+    expect(begin).toMatchObject({ query: "begin", cause: { code: "ECONNREFUSED" } });
+    expect(commit.constructor.name).toBe("DrizzleQueryError");
+    expect(commit).toMatchObject({ query: "commit", cause: { code: "40001" } });
+  });
+
+  it("should leave plain errors unwrapped", async () => {
+    const { db, mock } = createTestDb();
+    mock.failNextTransaction({ error: new Error("connection lost") });
+
+    await expect(db.transaction(async () => {})).rejects.toThrow(new Error("connection lost"));
+  });
+});
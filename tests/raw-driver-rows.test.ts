@@ -0,0 +1,146 @@
+// ABOUTME: Tests for the rawDriverRows option, where mock responses are written as driver-level rows
+// ABOUTME: Verifies decoding, column naming, aliases, join nullability and relational queries
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { eq, sql } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { json, pgTable, serial } from "drizzle-orm/pg-core";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { mockDatabase } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+describe("rawDriverRows", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb<{ rawDriverRows: true }>>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb({ rawDriverRows: true }));
+  });
+
+  it("should key rows by column name and decode driver values", async () => {
+    mock.onSelect(schema.users).respond([
+      { id: 1, name: "Alice", email: "alice@test.com", created_at: "2024-01-02 03:04:05" },
+    ]);
+
+    const [user] = await db.select().from(schema.users);
+
+    expect(user).toEqual({
+      id: 1,
+      name: "Alice",
+      email: "alice@test.com",
+      createdAt: new Date("2024-01-02T03:04:05Z"),
+    });
+  });
+
+  it("should decode custom column types such as json text", async () => {
+    const settings = pgTable("settings", {
+      id: serial("id").primaryKey(),
+      data: json("data").$type<{ theme: string }>(),
+    });
+    mock.onSelect(settings).respond([{ id: 1, data: '{"theme":"dark"}' }]);
+
+    const [row] = await db.select().from(settings);
+
+    expect(row.data).toEqual({ theme: "dark" });
+  });
+
+  it("should apply field aliases and mapWith()", async () => {
+    mock.onSelect(schema.users).respond([{ total: "3" }]);
+
+    const [row] = await db
+      .select({ total: sql<number>`count(*)`.mapWith(Number).as("total") })
+      .from(schema.users);
+
+    expect(row).toEqual({ total: 3 });
+  });
+
+  it("should nest joined tables and null out left joins without a match", async () => {
+    mock.onSelect(schema.posts).respond([
+      { "posts.id": 1, title: "Hello", body: "...", author_id: 7, "users.id": 7, name: "Alice", email: "a@test.com", created_at: null },
+      { "posts.id": 2, title: "Orphan", body: "...", author_id: 9, "users.id": null, name: null, email: null, created_at: null },
+    ]);
+
+    const rows = await db
+      .select()
+      .from(schema.posts)
+      .leftJoin(schema.users, eq(schema.posts.authorId, schema.users.id));
+
+    expect(rows[0].users).toEqual({ id: 7, name: "Alice", email: "a@test.com", createdAt: null });
+    expect(rows[0].posts.authorId).toBe(7);
+    expect(rows[1].users).toBeNull();
+  });
+
+  it("should map relational rows with relations given as JSON text", async () => {
+    mock.onFindMany(schema.users).respond([
+      {
+        id: 1,
+        name: "Alice",
+        email: "alice@test.com",
+        created_at: "2024-01-02 03:04:05",
+        posts: JSON.stringify([{ id: 10, title: "Hello", body: "...", author_id: 1 }]),
+      },
+    ]);
+
+    const result = await db.query.users.findMany({ with: { posts: true } });
+
+    expect(result).toEqual([
+      {
+        id: 1,
+        name: "Alice",
+        email: "alice@test.com",
+        createdAt: new Date("2024-01-02T03:04:05Z"),
+        posts: [{ id: 10, title: "Hello", body: "...", authorId: 1 }],
+      },
+    ]);
+  });
+
+  it("should accept a single row for findFirst", async () => {
+    mock.onFindFirst(schema.posts).respond({
+      id: 10,
+      title: "Hello",
+      body: "...",
+      author_id: 1,
+      author: { id: 1, name: "Alice", email: "alice@test.com", created_at: null },
+    });
+
+    const post = await db.query.posts.findFirst({ with: { author: true } });
+
+    expect(post).toEqual({
+      id: 10,
+      title: "Hello",
+      body: "...",
+      authorId: 1,
+      author: { id: 1, name: "Alice", email: "alice@test.com", createdAt: null },
+    });
+  });
+
+  it("should leave write results and mocks without rows alone", async () => {
+    mock.onInsert(schema.users).affects(1);
+
+    const result = await db.insert(schema.users).values({ name: "Alice", email: "alice@test.com" });
+
+    expect(result).toMatchObject({ command: "INSERT", rowCount: 1 });
+  });
+
+  it("should name the column a row is missing", async () => {
+    mock.onSelect(schema.users).respond([{ id: 1, name: "Alice", email: "alice@test.com" }]);
+
+    await expect(db.select().from(schema.users)).rejects.toThrow(/missing "users.created_at" \/ "created_at"/);
+  });
+
+  it("should decode a single row for SQLite .get()", async () => {
+    const items = sqliteTable("items", {
+      id: integer("id").primaryKey(),
+      label: text("label").notNull(),
+      addedAt: integer("added_at", { mode: "timestamp" }),
+    });
+    const sqliteDb = drizzleSqlite.mock();
+    const sqliteMock = mockDatabase(sqliteDb, { rawDriverRows: true });
+    sqliteMock.onSelect(items).respond({ id: 1, label: "a", added_at: 1704164645 });
+
+    const item = await sqliteDb.select().from(items).get();
+
+    expect(item).toEqual({ id: 1, label: "a", addedAt: new Date(1704164645 * 1000) });
+  });
+});
@@ -0,0 +1,132 @@
+// ABOUTME: Tests for matching findFirst/findMany mocks on the relational config
+// ABOUTME: Covers with (nested), columns, where/orderBy/limit/offset presence and values, and diagnostics
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { asc, desc, eq } from "drizzle-orm";
+import { anything } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+const alice = { id: 1, name: "Alice", email: "alice@test.com", createdAt: null };
+
+describe("relational config matching", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb());
+  });
+
+  describe("with", () => {
+    it("should tell a query loading relations from a plain one", async () => {
+      mock.onFindMany(schema.users).respond([alice]);
+      mock.onFindMany(schema.users).with({ posts: true }).respond([{ ...alice, posts: [] }]);
+
+      expect(await db.query.users.findMany()).toEqual([alice]);
+      expect(await db.query.users.findMany({ with: { posts: true } })).toEqual([{ ...alice, posts: [] }]);
+    });
+
+    it("should match nested relations", async () => {
+      mock.onFindMany(schema.users).with({ posts: { with: { author: true } } }).respond([]);
+
+      await expect(db.query.users.findMany({ with: { posts: true } })).rejects.toThrow(
+        'with.posts.with: expected the query to load "author"'
+      );
+      await expect(
+        db.query.users.findMany({ with: { posts: { with: { author: true } } } })
+      ).resolves.toEqual([]);
+    });
+
+    it("should match from a structural callback", async () => {
+      mock.on((d) => d.query.users.findMany({ with: { posts: true } })).respond([{ ...alice, posts: [] }]);
+      mock.on((d) => d.query.users.findMany()).respond([alice]);
+
+      expect(await db.query.users.findMany({ with: { posts: true } })).toEqual([{ ...alice, posts: [] }]);
+      expect(await db.query.users.findMany()).toEqual([alice]);
+    });
+  });
+
+  describe("columns", () => {
+    it("should require exactly the selected columns", async () => {
+      mock.onFindFirst(schema.users).columns({ id: true, name: true }).respond({ id: 1, name: "Alice" });
+
+      expect(await db.query.users.findFirst({ columns: { name: true, id: true } })).toEqual({ id: 1, name: "Alice" });
+      await expect(db.query.users.findFirst()).rejects.toThrow(
+        "columns: expected [id, name], got [id, name, email, createdAt]"
+      );
+    });
+
+    it("should understand excluded columns", async () => {
+      mock.onFindFirst(schema.users).columns({ email: false }).respond(alice);
+
+      await expect(
+        db.query.users.findFirst({ columns: { id: true, name: true, createdAt: true } })
+      ).resolves.toEqual(alice);
+    });
+  });
+
+  describe("clauses", () => {
+    it("should require a clause to be present when called without a value", async () => {
+      mock.onFindMany(schema.users).where().orderBy().limit().offset().respond([alice]);
+
+      await expect(db.query.users.findMany({ where: eq(schema.users.id, 1) })).rejects.toThrow(
+        /orderBy: expected an orderBy, but the query has none\n.*limit: expected a limit, but the query has none/
+      );
+      await expect(
+        db.query.users.findMany({ where: eq(schema.users.id, 1), orderBy: asc(schema.users.id), limit: 5, offset: 10 })
+      ).resolves.toEqual([alice]);
+    });
+
+    it("should compare where values", async () => {
+      mock.onFindFirst(schema.users).where(eq(schema.users.id, 1)).respond(alice);
+
+      expect(await db.query.users.findFirst({ where: (users, { eq }) => eq(users.id, 1) })).toEqual(alice);
+      await expect(db.query.users.findFirst({ where: eq(schema.users.id, 2) })).rejects.toThrow(
+        'where: expected "id" = ? [1], got "id" = ? [2]'
+      );
+    });
+
+    it("should accept matchers as where values", async () => {
+      mock.onFindFirst(schema.users).where(eq(schema.users.id, expect.any(Number))).respond(alice);
+
+      await expect(db.query.users.findFirst({ where: eq(schema.users.id, 42) })).resolves.toEqual(alice);
+    });
+
+    it("should compare orderBy, limit and offset values", async () => {
+      mock.onFindMany(schema.users).orderBy(desc(schema.users.id)).limit(10).offset(20).respond([alice]);
+
+      await expect(
+        db.query.users.findMany({ orderBy: (users, { desc }) => [desc(users.id)], limit: 10, offset: 20 })
+      ).resolves.toEqual([alice]);
+      await expect(
+        db.query.users.findMany({ orderBy: asc(schema.users.id), limit: 5, offset: 20 })
+      ).rejects.toThrow(/orderBy: expected "id" desc, got "id" asc\n.*limit: expected 10, got 5/);
+    });
+
+    it("should treat anything() in a structural callback as any value", async () => {
+      mock.on((d) => d.query.users.findFirst({ where: anything() })).respond(alice);
+      mock.on((d) => d.query.users.findMany({ where: anything(), limit: anything() })).respond([alice]);
+
+      await expect(db.query.users.findFirst({ where: eq(schema.users.id, 9) })).resolves.toEqual(alice);
+      await expect(db.query.users.findMany({ where: eq(schema.users.id, 9) })).rejects.toThrow(
+        "limit: expected a limit, but the query has none"
+      );
+    });
+  });
+
+  it("should prefer the mock that requires more of the query", async () => {
+    mock.onFindMany(schema.users).with({ posts: true }).respond([{ ...alice, posts: [] }]);
+    mock.onFindMany(schema.users).with({ posts: true }).where(eq(schema.users.id, 1)).respond([]);
+    mock.onFindMany(schema.users).respond([alice]);
+
+    expect(await db.query.users.findMany({ with: { posts: true }, where: eq(schema.users.id, 1) })).toEqual([]);
+  });
+
+  it("should describe relational constraints in mock listings", async () => {
+    mock.onFindMany(schema.users).with({ posts: { columns: { id: true } } }).limit(10).respond([]);
+
+    await expect(db.query.users.findMany()).rejects.toThrow(
+      'structural: findMany on "users" with: [posts { columns: [id] }] limit: 10'
+    );
+  });
+});
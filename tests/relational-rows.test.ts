@@ -0,0 +1,148 @@
+// ABOUTME: Tests for composing findFirst/findMany results from per-table fixtures through relations()
+// ABOUTME: Covers nested with, one vs many cardinality, columns, per-relation clauses and stateful mode
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { relations } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { integer, pgTable, serial, text } from "drizzle-orm/pg-core";
+import { mockDatabase } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+const comments = pgTable("comments", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id").notNull(),
+  text: text("text").notNull(),
+});
+
+const commentsRelations = relations(comments, ({ one }) => ({
+  post: one(schema.posts, { fields: [comments.postId], references: [schema.posts.id] }),
+}));
+
+const postsWithComments = relations(schema.posts, ({ one, many }) => ({
+  author: one(schema.users, { fields: [schema.posts.authorId], references: [schema.users.id] }),
+  comments: many(comments),
+}));
+
+const blogSchema = {
+  users: schema.users,
+  posts: schema.posts,
+  comments,
+  usersRelations: schema.usersRelations,
+  postsRelations: postsWithComments,
+  commentsRelations,
+};
+
+const users = [
+  { id: 1, name: "Alice", email: "alice@test.com", createdAt: null },
+  { id: 2, name: "Bob", email: "bob@test.com", createdAt: null },
+];
+const posts = [
+  { id: 10, title: "Hello", body: "...", authorId: 1 },
+  { id: 11, title: "Again", body: "...", authorId: 1 },
+  { id: 12, title: "Bob's", body: "...", authorId: 2 },
+];
+
+describe("relational rows", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb());
+  });
+
+  it("should load many relations by their references", async () => {
+    mock.onFindMany(schema.users).rows({ users, posts });
+
+    const result = await db.query.users.findMany({ with: { posts: true } });
+
+    expect(result).toEqual([
+      { ...users[0], posts: [posts[0], posts[1]] },
+      { ...users[1], posts: [posts[2]] },
+    ]);
+  });
+
+  it("should load one relations as a row or null", async () => {
+    mock.onFindMany(schema.posts).rows({ posts: [...posts, { id: 13, title: "Orphan", body: "...", authorId: 9 }], users });
+
+    const result = await db.query.posts.findMany({ columns: { id: true }, with: { author: { columns: { name: true } } } });
+
+    expect(result).toEqual([
+      { id: 10, author: { name: "Alice" } },
+      { id: 11, author: { name: "Alice" } },
+      { id: 12, author: { name: "Bob" } },
+      { id: 13, author: null },
+    ]);
+  });
+
+  it("should apply where, orderBy and limit inside relations", async () => {
+    mock.onFindFirst(schema.users).rows({ users, posts });
+
+    const result = await db.query.users.findFirst({
+      where: (users, { eq }) => eq(users.name, "Alice"),
+      columns: { name: true },
+      with: { posts: { columns: { title: true }, orderBy: (posts, { desc }) => desc(posts.id), limit: 1 } },
+    });
+
+    expect(result).toEqual({ name: "Alice", posts: [{ title: "Again" }] });
+  });
+
+  it("should select the config's columns from plain row fixtures", async () => {
+    mock.onFindMany(schema.users).rows(users);
+
+    expect(await db.query.users.findMany({ columns: { email: false, createdAt: false } })).toEqual([
+      { id: 1, name: "Alice" },
+      { id: 2, name: "Bob" },
+    ]);
+  });
+
+  it("should ask for fixtures of tables the query loads", async () => {
+    mock.onFindMany(schema.users).rows(users);
+
+    await expect(db.query.users.findMany({ with: { posts: true } })).rejects.toThrow(
+      '.rows() has no fixtures for "posts", which the query loads through "posts". Pass rows for every table the query loads, e.g. { users: [...], posts: [...] }. Got: "users"'
+    );
+  });
+
+  it("should compose nested relations", async () => {
+    const blogDb = drizzle.mock({ schema: blogSchema });
+    const blogMock = mockDatabase(blogDb);
+    blogMock.onFindMany(schema.users).rows({
+      users: [users[0]],
+      posts,
+      comments: [
+        { id: 100, postId: 10, text: "First" },
+        { id: 101, postId: 12, text: "Not Alice's" },
+        { id: 102, postId: 10, text: "Second" },
+      ],
+    });
+
+    const result = await blogDb.query.users.findMany({
+      columns: { name: true },
+      with: { posts: { columns: { id: true }, with: { comments: { columns: { text: true } } } } },
+    });
+
+    expect(result).toEqual([
+      {
+        name: "Alice",
+        posts: [
+          { id: 10, comments: [{ text: "First" }, { text: "Second" }] },
+          { id: 11, comments: [] },
+        ],
+      },
+    ]);
+  });
+
+  it("should load relations from the store in stateful mode", async () => {
+    const stateful = createTestDb({ stateful: true });
+    stateful.mock.seed(schema.users, users);
+    stateful.mock.seed(schema.posts, posts);
+
+    const result = await stateful.db.query.posts.findFirst({
+      where: (posts, { eq }) => eq(posts.id, 12),
+      with: { author: true },
+    });
+
+    expect(result).toEqual({ ...posts[2], author: users[1] });
+  });
+});
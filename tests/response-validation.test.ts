@@ -0,0 +1,112 @@
+// ABOUTME: Tests for the validateResponses option, which checks mock rows against the schema
+// ABOUTME: Verifies unknown keys, missing not-null columns, type mismatches and the mock named in errors
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { eq, sql } from "drizzle-orm";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+const alice = { id: 1, name: "Alice", email: "alice@test.com", createdAt: new Date("2024-01-01") };
+
+describe("validateResponses", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb({ validateResponses: true }));
+  });
+
+  it("should accept rows that match the table", async () => {
+    mock.onSelect(schema.users).respond([alice, { ...alice, id: 2, createdAt: null }]);
+
+    await expect(db.select().from(schema.users)).resolves.toHaveLength(2);
+  });
+
+  it("should flag unknown keys", async () => {
+    // @ts-expect-error the fixture is invalid on purpose
+    mock.onSelect(schema.users).respond([{ ...alice, nmae: "Alice" }]);
+
+    await expect(db.select().from(schema.users)).rejects.toThrow('row 1: unknown key "nmae"');
+  });
+
+  it("should flag missing not-null columns", async () => {
+    mock.onSelect(schema.users).respond([{ id: 1, name: "Alice" }]);
+
+    await expect(db.select().from(schema.users)).rejects.toThrow("row 1: missing not-null column email");
+  });
+
+  it("should flag a string in a timestamp column", async () => {
+    // @ts-expect-error the fixture is invalid on purpose
+    mock.onSelect(schema.users).respond([{ ...alice, createdAt: "2024-01-01" }]);
+
+    await expect(db.select().from(schema.users)).rejects.toThrow(
+      'row 1.createdAt: expected a Date for timestamp column "created_at", got string "2024-01-01"'
+    );
+  });
+
+  it("should flag a string in an integer column", async () => {
+    // @ts-expect-error the fixture is invalid on purpose
+    mock.onSelect(schema.posts).respond([{ id: 1, title: "Hello", body: "...", authorId: "1" }]);
+
+    await expect(db.select().from(schema.posts)).rejects.toThrow(
+      'row 1.authorId: expected a number for integer column "author_id", got string "1"'
+    );
+  });
+
+  it("should name the mock and the query in the error", async () => {
+    // @ts-expect-error the fixture is invalid on purpose
+    mock.onSelect(schema.users).respond([{ id: "1" }]);
+
+    const error = await db.select().from(schema.users).catch((e: Error) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('Mock: structural: select on "users"');
+    expect((error as Error).message).toContain('SQL: select "id", "name", "email", "created_at" from "users"');
+    expect(mock.calls[0].outcome).toBe("threw");
+  });
+
+  it("should check against the selected fields", async () => {
+    const counts = (d: typeof db) =>
+      d.select({ label: schema.users.name, total: sql<string>`count(*)` }).from(schema.users);
+    mock.on(counts).respond([{ label: "Alice", total: "3" }]);
+
+    const result = await counts(db);
+
+    expect(result).toEqual([{ label: "Alice", total: "3" }]);
+  });
+
+  it("should allow null for a left-joined table", async () => {
+    mock.onSelect(schema.posts).rows({ posts: [{ id: 1, title: "Hello", body: "...", authorId: 9 }], users: [] });
+
+    const result = await db
+      .select()
+      .from(schema.posts)
+      .leftJoin(schema.users, eq(schema.posts.authorId, schema.users.id));
+
+    expect(result[0].users).toBeNull();
+  });
+
+  it("should check relational rows and loaded relations", async () => {
+    mock.onFindFirst(schema.users).respond({ ...alice, posts: [{ id: 1, title: 2, body: "...", authorId: 1 }] });
+
+    await expect(db.query.users.findFirst({ with: { posts: true } })).rejects.toThrow(
+      'row.posts[0].title: expected a string for text column "title", got number 2'
+    );
+  });
+
+  it("should flag relations the query didn't load", async () => {
+    mock.onFindMany(schema.users).respond([{ ...alice, posts: [] }]);
+
+    await expect(db.query.users.findMany()).rejects.toThrow('row 1: unknown key "posts"');
+  });
+
+  it("should check .returning() rows and skip write results", async () => {
+    mock.onInsert(schema.users).returning().respond([{ id: 1 }]);
+    mock.onDelete(schema.users).affects(1);
+
+    await expect(
+      db.insert(schema.users).values({ name: "Alice", email: "alice@test.com" }).returning()
+    ).rejects.toThrow("row 1: missing not-null column name");
+    await expect(db.delete(schema.users)).resolves.toMatchObject({ rowCount: 1 });
+  });
+});
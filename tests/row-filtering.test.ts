@@ -0,0 +1,230 @@
+// ABOUTME: Tests for .rows() mocks, which filter a registered row set with the query's real WHERE
+// ABOUTME: Verifies each supported drizzle operator plus ordering, limits and projection
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  and,
+  asc,
+  between,
+  desc,
+  eq,
+  gt,
+  gte,
+  ilike,
+  inArray,
+  isNotNull,
+  isNull,
+  like,
+  lt,
+  ne,
+  not,
+  notBetween,
+  notInArray,
+  notLike,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import { drizzle as drizzleMysql } from "drizzle-orm/mysql2";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { int, mysqlTable, varchar } from "drizzle-orm/mysql-core";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { mockDatabase } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+const userRows = [
+  { id: 1, name: "Alice", email: "alice@test.com", createdAt: new Date("2024-01-01") },
+  { id: 2, name: "Bob", email: "bob@example.com", createdAt: null },
+  { id: 3, name: "Carol", email: "carol@test.com", createdAt: new Date("2024-03-01") },
+  { id: 4, name: "alan", email: "alan_x@test.com", createdAt: new Date("2024-05-01") },
+];
+
+describe(".rows() filtering", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb());
+    mock.onSelect(schema.users).rows(userRows);
+  });
+
+  async function idsWhere(where: ReturnType<typeof eq> | undefined) {
+    const result = await db.select({ id: schema.users.id }).from(schema.users).where(where);
+    return result.map((row) => row.id);
+  }
+
+  it("should return only rows matching eq()", async () => {
+    const result = await db
+      .select()
+      .from(schema.users)
+      .where(eq(schema.users.email, "bob@example.com"));
+
+    expect(result).toEqual([userRows[1]]);
+  });
+
+  it("should not match when the query filters on the wrong column", async () => {
+    // A lookup by email that accidentally compares against name finds nothing
+    const result = await db
+      .select()
+      .from(schema.users)
+      .where(eq(schema.users.name, "bob@example.com"));
+
+    expect(result).toEqual([]);
+  });
+
+  it("should return every row without a where clause", async () => {
+    expect(await idsWhere(undefined)).toEqual([1, 2, 3, 4]);
+  });
+
+  it.each([
+    ["ne", () => ne(schema.users.id, 1), [2, 3, 4]],
+    ["gt", () => gt(schema.users.id, 2), [3, 4]],
+    ["gte", () => gte(schema.users.id, 2), [2, 3, 4]],
+    ["lt", () => lt(schema.users.id, 2), [1]],
+    ["and", () => and(gt(schema.users.id, 1), lt(schema.users.id, 4)), [2, 3]],
+    ["or", () => or(eq(schema.users.id, 1), eq(schema.users.id, 4)), [1, 4]],
+    ["not", () => not(eq(schema.users.id, 1)), [2, 3, 4]],
+    ["not of a comparison with NULL as unknown", () => not(eq(schema.users.createdAt, new Date("2024-01-01"))), [3, 4]],
+    ["not of an or with an unknown side", () => not(or(eq(schema.users.id, 9), gt(schema.users.createdAt, new Date("2024-02-01")))!), [1]],
+    ["notBetween with NULL as unknown", () => notBetween(schema.users.createdAt, new Date("2024-02-01"), new Date("2024-04-01")), [1, 4]],
+    ["inArray", () => inArray(schema.users.id, [1, 3]), [1, 3]],
+    ["empty inArray", () => inArray(schema.users.id, []), []],
+    ["notInArray", () => notInArray(schema.users.id, [1, 3]), [2, 4]],
+    ["like", () => like(schema.users.email, "%@test.com"), [1, 3, 4]],
+    ["like is case-sensitive on Postgres", () => like(schema.users.name, "a%"), [4]],
+    ["like with single-character wildcard", () => like(schema.users.name, "_ob"), [2]],
+    ["like with escaped wildcard", () => like(schema.users.email, "%\\_%"), [4]],
+    ["ilike", () => ilike(schema.users.name, "a%"), [1, 4]],
+    ["notLike", () => notLike(schema.users.email, "%@test.com"), [2]],
+    ["isNull", () => isNull(schema.users.createdAt), [2]],
+    ["isNotNull", () => isNotNull(schema.users.createdAt), [1, 3, 4]],
+    ["between", () => between(schema.users.id, 2, 3), [2, 3]],
+    ["notBetween", () => notBetween(schema.users.id, 2, 3), [1, 4]],
+    [
+      "between dates",
+      () => between(schema.users.createdAt, new Date("2024-02-01"), new Date("2024-04-01")),
+      [3],
+    ],
+  ])("should evaluate %s", async (_name, where, expected) => {
+    expect(await idsWhere(where())).toEqual(expected);
+  });
+
+  it("should apply orderBy, limit and offset", async () => {
+    const result = await db
+      .select({ name: schema.users.name })
+      .from(schema.users)
+      .orderBy(asc(schema.users.name))
+      .limit(2)
+      .offset(1);
+
+    expect(result).toEqual([{ name: "Bob" }, { name: "Carol" }]);
+  });
+
+  it("should sort NULL last ascending and first descending on Postgres", async () => {
+    const ids = async (...orderBy: SQL[]) =>
+      (await db.select({ id: schema.users.id }).from(schema.users).orderBy(...orderBy)).map((row) => row.id);
+
+    expect(await ids(asc(schema.users.createdAt))).toEqual([1, 3, 4, 2]);
+    expect(await ids(desc(schema.users.createdAt))).toEqual([2, 4, 3, 1]);
+    expect(await ids(sql`${schema.users.createdAt} asc nulls first`)).toEqual([2, 1, 3, 4]);
+  });
+
+  it("should resolve placeholders in limit and offset", async () => {
+    const prepared = db
+      .select({ name: schema.users.name })
+      .from(schema.users)
+      .orderBy(asc(schema.users.name))
+      .limit(sql.placeholder("n"))
+      .offset(sql.placeholder("skip"))
+      .prepare("users_page");
+
+    expect(await prepared.execute({ n: 1, skip: 0 })).toEqual([{ name: "Alice" }]);
+    expect(await prepared.execute({ n: 1, skip: 2 })).toEqual([{ name: "Carol" }]);
+  });
+
+  it("should throw for conditions it cannot evaluate", async () => {
+    await expect(
+      db.select().from(schema.users).where(sql`${schema.users.name} ~ 'A'`)
+    ).rejects.toThrow(/Cannot evaluate SQL in memory/);
+  });
+
+  it("should filter relational queries", async () => {
+    mock.onFindFirst(schema.users).rows(userRows);
+    mock.onFindMany(schema.users).rows(userRows);
+
+    const first = await db.query.users.findFirst({
+      where: (users, { eq }) => eq(users.name, "Carol"),
+    });
+    const many = await db.query.users.findMany({
+      where: inArray(schema.users.id, [2, 4]),
+    });
+
+    expect(first).toEqual(userRows[2]);
+    expect(many).toEqual([userRows[1], userRows[3]]);
+  });
+
+  it("should return a spy-compatible handle", async () => {
+    const handle = mock.onSelect(schema.users).rows([userRows[0]]);
+
+    await db.select().from(schema.users);
+
+    expect(handle).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only be allowed on read operations", () => {
+    expect(() => mock.onUpdate(schema.users).rows([])).toThrow(
+      /can only be used with onSelect/
+    );
+  });
+
+  describe("like per driver", () => {
+    const names = [{ id: 1, name: "Alice" }, { id: 2, name: "alan" }, { id: 3, name: "Émile" }, { id: 4, name: "émile" }];
+
+    it("should ignore case on MySQL, as its default collations do", async () => {
+      const people = mysqlTable("people", { id: int("id").primaryKey(), name: varchar("name", { length: 50 }) });
+      const mysqlDb = drizzleMysql.mock({ mode: "default" });
+      mockDatabase(mysqlDb).onSelect(people).rows(names);
+
+      const rows = await mysqlDb.select({ id: people.id }).from(people).where(like(people.name, "a%"));
+      const accented = await mysqlDb.select({ id: people.id }).from(people).where(like(people.name, "é%"));
+
+      expect(rows.map((row) => row.id)).toEqual([1, 2]);
+      expect(accented.map((row) => row.id)).toEqual([3, 4]);
+    });
+
+    it("should ignore the case of ASCII letters only on SQLite", async () => {
+      const people = sqliteTable("people", { id: integer("id").primaryKey(), name: text("name") });
+      const sqliteDb = drizzleSqlite.mock();
+      mockDatabase(sqliteDb).onSelect(people).rows(names);
+
+      const rows = await sqliteDb.select({ id: people.id }).from(people).where(like(people.name, "A%"));
+      const accented = await sqliteDb.select({ id: people.id }).from(people).where(like(people.name, "é%"));
+
+      expect(rows.map((row) => row.id)).toEqual([1, 2]);
+      expect(accented.map((row) => row.id)).toEqual([4]);
+    });
+  });
+
+  it("should sort NULL first ascending on SQLite", async () => {
+    const people = sqliteTable("people", { id: integer("id").primaryKey(), name: text("name") });
+    const sqliteDb = drizzleSqlite.mock();
+    mockDatabase(sqliteDb).onSelect(people).rows([{ id: 1, name: "Bob" }, { id: 2, name: null }, { id: 3, name: "Alice" }]);
+    const ids = async (order: SQL) => (await sqliteDb.select().from(people).orderBy(order)).map((row) => row.id);
+
+    expect(await ids(asc(people.name))).toEqual([2, 3, 1]);
+    expect(await ids(desc(people.name))).toEqual([1, 3, 2]);
+  });
+
+  it("should return the first matching row for SQLite .get()", async () => {
+    const people = sqliteTable("people", { id: integer("id").primaryKey(), name: text("name") });
+    const sqliteDb = drizzleSqlite.mock();
+    mockDatabase(sqliteDb).onSelect(people).rows([{ id: 1, name: "Alice" }, { id: 2, name: "Bob" }]);
+
+    const found = await sqliteDb.select().from(people).where(eq(people.name, "Bob")).get();
+    const missing = await sqliteDb.select().from(people).where(eq(people.name, "Carol")).get();
+
+    expect(found).toEqual({ id: 2, name: "Bob" });
+    expect(missing).toBeUndefined();
+  });
+});
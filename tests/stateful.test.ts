@@ -0,0 +1,315 @@
+// ABOUTME: Tests for stateful mode, where an in-memory table store answers unmatched queries
+// ABOUTME: Verifies inserts, updates, deletes, selects and relational queries read back real rows
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { and, asc, count, desc, eq, gt, isNull, or, sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { pgTable, serial, text as pgText } from "drizzle-orm/pg-core";
+import { sqliteTable, integer, text } from "drizzle-orm/sqlite-core";
+import { mockDatabase } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+describe("stateful mode", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb({ stateful: true }));
+  });
+
+  describe("inserts", () => {
+    it("should read back an inserted row", async () => {
+      await db.insert(schema.users).values({ name: "Alice", email: "alice@test.com" });
+
+      const result = await db.select().from(schema.users);
+
+      expect(result).toEqual([
+        { id: 1, name: "Alice", email: "alice@test.com", createdAt: expect.any(Date) },
+      ]);
+    });
+
+    it("should assign serial ids in insertion order", async () => {
+      const result = await db
+        .insert(schema.users)
+        .values([
+          { name: "Alice", email: "alice@test.com" },
+          { name: "Bob", email: "bob@test.com" },
+        ])
+        .returning({ id: schema.users.id });
+
+      expect(result).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it("should continue the sequence after explicitly provided ids", async () => {
+      mock.seed(schema.users, [{ id: 10, name: "Seeded", email: "s@test.com" }]);
+
+      const [row] = await db
+        .insert(schema.users)
+        .values({ name: "Next", email: "n@test.com" })
+        .returning();
+
+      expect(row.id).toBe(11);
+    });
+
+    it("should return a row count when no returning clause is used", async () => {
+      const result = await db
+        .insert(schema.users)
+        .values({ name: "Alice", email: "alice@test.com" });
+
+      expect(result).toMatchObject({ command: "INSERT", rowCount: 1 });
+    });
+
+    it("should reject a repeated primary key with the driver's unique violation", async () => {
+      await db.insert(schema.users).values({ id: 1, name: "Alice", email: "alice@test.com" });
+
+      await expect(
+        db.insert(schema.users).values({ id: 1, name: "Bob", email: "bob@test.com" })
+      ).rejects.toMatchObject({ code: "23505", constraint: "users_pkey", detail: "Key (id)=(1) already exists." });
+      expect(mock.rows(schema.users)).toHaveLength(1);
+    });
+
+    it("should throw for conflict clauses it can't apply", async () => {
+      await expect(
+        db.insert(schema.users).values({ id: 1, name: "Alice", email: "alice@test.com" }).onConflictDoNothing()
+      ).rejects.toThrow(/Stateful mode cannot apply onConflictDoNothing\(\), onConflictDoUpdate\(\)/);
+    });
+  });
+
+  describe("updates and deletes", () => {
+    beforeEach(() => {
+      mock.seed(schema.users, [
+        { name: "Alice", email: "alice@test.com" },
+        { name: "Bob", email: "bob@test.com" },
+      ]);
+    });
+
+    it("should only update rows matching the where clause", async () => {
+      const result = await db
+        .update(schema.users)
+        .set({ name: "Alice Updated" })
+        .where(eq(schema.users.id, 1))
+        .returning({ id: schema.users.id, name: schema.users.name });
+
+      expect(result).toEqual([{ id: 1, name: "Alice Updated" }]);
+      expect(mock.rows(schema.users).map((u) => u.name)).toEqual(["Alice Updated", "Bob"]);
+    });
+
+    it("should reject an update that repeats a primary key and leave the rows unchanged", async () => {
+      await expect(
+        db.update(schema.users).set({ id: 1 }).where(eq(schema.users.id, 2))
+      ).rejects.toMatchObject({ code: "23505", constraint: "users_pkey" });
+      expect(mock.rows(schema.users).map((u) => u.id)).toEqual([1, 2]);
+    });
+
+    it("should reject an update that repeats a unique column value", async () => {
+      const accounts = pgTable("accounts", {
+        id: serial("id").primaryKey(),
+        email: pgText("email").notNull().unique(),
+      });
+      mock.seed(accounts, [{ email: "alice@test.com" }, { email: "bob@test.com" }]);
+
+      await expect(
+        db.update(accounts).set({ email: "alice@test.com" }).where(eq(accounts.id, 2))
+      ).rejects.toMatchObject({ code: "23505", constraint: "accounts_email_unique" });
+      await expect(db.update(accounts).set({ email: "carol@test.com" })).rejects.toMatchObject({ code: "23505" });
+      expect(mock.rows(accounts).map((a) => a.email)).toEqual(["alice@test.com", "bob@test.com"]);
+    });
+
+    it("should allow an update that keeps a row's own unique values", async () => {
+      await db.update(schema.users).set({ id: 1, name: "Alice" }).where(eq(schema.users.id, 1));
+
+      expect(mock.rows(schema.users).map((u) => u.id)).toEqual([1, 2]);
+    });
+
+    it("should delete matching rows", async () => {
+      const result = await db.delete(schema.users).where(eq(schema.users.email, "bob@test.com"));
+
+      expect(result).toMatchObject({ command: "DELETE", rowCount: 1 });
+      expect(mock.rows(schema.users).map((u) => u.name)).toEqual(["Alice"]);
+    });
+
+    it("should delete every row without a where clause", async () => {
+      await db.delete(schema.users);
+
+      expect(mock.rows(schema.users)).toEqual([]);
+    });
+  });
+
+  describe("selects", () => {
+    beforeEach(() => {
+      mock.seed(schema.users, [
+        { name: "Alice", email: "alice@test.com" },
+        { name: "Bob", email: "bob@test.com" },
+        { name: "Carol", email: "carol@test.com", createdAt: null },
+      ]);
+    });
+
+    it("should filter with combined conditions", async () => {
+      const result = await db
+        .select({ name: schema.users.name })
+        .from(schema.users)
+        .where(or(eq(schema.users.name, "Alice"), and(gt(schema.users.id, 2), isNull(schema.users.createdAt))));
+
+      expect(result).toEqual([{ name: "Alice" }, { name: "Carol" }]);
+    });
+
+    it("should apply order by, limit and offset", async () => {
+      const result = await db
+        .select({ id: schema.users.id })
+        .from(schema.users)
+        .orderBy(desc(schema.users.id))
+        .limit(2)
+        .offset(1);
+
+      expect(result).toEqual([{ id: 2 }, { id: 1 }]);
+    });
+
+    it("should resolve prepared statement placeholders", async () => {
+      const prepared = db
+        .select({ name: schema.users.name })
+        .from(schema.users)
+        .where(eq(schema.users.id, sql.placeholder("id")))
+        .prepare("user_by_id");
+
+      expect(await prepared.execute({ id: 2 })).toEqual([{ name: "Bob" }]);
+    });
+
+    it("should resolve placeholders in limit and offset", async () => {
+      const prepared = db
+        .select({ name: schema.users.name })
+        .from(schema.users)
+        .orderBy(asc(schema.users.name))
+        .limit(sql.placeholder("limit"))
+        .offset(sql.placeholder("offset"))
+        .prepare("page_of_users");
+
+      expect(await prepared.execute({ limit: 1, offset: 1 })).toEqual([{ name: "Bob" }]);
+    });
+
+    it("should throw a readable error for SQL it cannot evaluate", async () => {
+      await expect(
+        db.select().from(schema.users).where(sql`lower(${schema.users.name}) = 'alice'`)
+      ).rejects.toThrow(/Cannot evaluate SQL in memory/);
+    });
+
+    it("should throw for selected SQL expressions such as count()", async () => {
+      await expect(db.select({ total: count() }).from(schema.users)).rejects.toThrow(
+        'Cannot evaluate the SQL expression selected as "total" in memory. Register a response for this query instead.'
+      );
+    });
+
+    it("should reject columns of a table the select doesn't read", async () => {
+      await expect(db.select().from(schema.users).where(eq(schema.posts.id, 1))).rejects.toThrow(
+        'Cannot resolve column "id" of table "posts": the query reads "users", not that table'
+      );
+    });
+  });
+
+  describe("relational queries", () => {
+    beforeEach(() => {
+      mock.seed(schema.users, [
+        { name: "Alice", email: "alice@test.com" },
+        { name: "Bob", email: "bob@test.com" },
+      ]);
+    });
+
+    it("should answer findMany with where and orderBy callbacks", async () => {
+      const result = await db.query.users.findMany({
+        where: (users, { gt }) => gt(users.id, 0),
+        orderBy: (users) => [desc(users.name)],
+      });
+
+      expect(result.map((u) => u.name)).toEqual(["Bob", "Alice"]);
+    });
+
+    it("should answer findFirst with a single row", async () => {
+      const result = await db.query.users.findFirst({
+        where: eq(schema.users.email, "bob@test.com"),
+      });
+
+      expect(result).toMatchObject({ id: 2, name: "Bob" });
+    });
+
+    it("should return undefined from findFirst when nothing matches", async () => {
+      const result = await db.query.users.findFirst({
+        where: eq(schema.users.id, 99),
+      });
+
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe("interaction with registered mocks", () => {
+    it("should prefer a matching mock over the store", async () => {
+      mock.seed(schema.users, [{ name: "Alice", email: "alice@test.com" }]);
+      mock.onSelect(schema.users).respond([{ id: 99, name: "Mocked" }]);
+
+      const result = await db.select().from(schema.users);
+
+      expect(result).toEqual([{ id: 99, name: "Mocked" }]);
+    });
+
+    it("should clear stored rows on reset", async () => {
+      mock.seed(schema.users, [{ name: "Alice", email: "alice@test.com" }]);
+
+      mock.reset();
+
+      expect(await db.select().from(schema.users)).toEqual([]);
+    });
+
+    it("should work inside transactions", async () => {
+      await db.transaction(async (tx) => {
+        await tx.insert(schema.users).values({ name: "Alice", email: "alice@test.com" });
+      });
+
+      expect(mock.rows(schema.users)).toHaveLength(1);
+    });
+  });
+
+  it("should reject seeded rows that repeat a primary key", () => {
+    mock.seed(schema.users, [{ id: 1, name: "Alice", email: "alice@test.com" }]);
+
+    expect(() => mock.seed(schema.users, [{ id: 1, name: "Bob", email: "bob@test.com" }])).toThrow(
+      'duplicate key value violates unique constraint "users_pkey"'
+    );
+    expect(mock.rows(schema.users)).toHaveLength(1);
+  });
+
+  it("should require stateful mode for seed()", () => {
+    const { mock: plain } = createTestDb();
+
+    expect(() => plain.seed(schema.users, [])).toThrow(/requires stateful mode/);
+  });
+
+  it("should work with the SQLite dialect", async () => {
+    const items = sqliteTable("items", {
+      id: integer("id").primaryKey(),
+      label: text("label").notNull(),
+    });
+    const sqliteDb = drizzle.mock();
+    mockDatabase(sqliteDb, { stateful: true });
+
+    await sqliteDb.insert(items).values([{ label: "b" }, { label: "a" }]);
+    const result = await sqliteDb.select().from(items).orderBy(asc(items.label));
+
+    expect(result).toEqual([{ id: 2, label: "a" }, { id: 1, label: "b" }]);
+  });
+
+  it("should return a single row for SQLite .get()", async () => {
+    const items = sqliteTable("items", {
+      id: integer("id").primaryKey(),
+      label: text("label").notNull(),
+    });
+    const sqliteDb = drizzle.mock();
+    mockDatabase(sqliteDb, { stateful: true });
+
+    const inserted = await sqliteDb.insert(items).values({ label: "a" }).returning().get();
+    const found = await sqliteDb.select().from(items).where(eq(items.label, "a")).get();
+    const missing = await sqliteDb.select().from(items).where(eq(items.label, "b")).get();
+
+    expect(inserted).toEqual({ id: 1, label: "a" });
+    expect(found).toEqual({ id: 1, label: "a" });
+    expect(missing).toBeUndefined();
+  });
+});
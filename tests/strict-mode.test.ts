@@ -0,0 +1,136 @@
+// ABOUTME: Tests for mock.verify(), mock.assertAllConsumed() and the strict option
+// ABOUTME: Verifies unused mocks, leftover respondOnce() responses and unconsumed once() mocks are reported
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { eq } from "drizzle-orm";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+describe("verifying mock usage", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb());
+  });
+
+  describe("verify()", () => {
+    it("should pass when every mock was used", async () => {
+      mock.onSelect(schema.users).respond([]);
+      mock.onInsert(schema.users).respond([]);
+
+      await db.select().from(schema.users);
+      await db.insert(schema.users).values({ name: "Alice", email: "alice@test.com" });
+
+      expect(() => mock.verify()).not.toThrow();
+    });
+
+    it("should pass when no mocks are registered", () => {
+      expect(() => mock.verify()).not.toThrow();
+    });
+
+    it("should report mocks that were never called", async () => {
+      mock.onSelect(schema.users).respond([]);
+      mock.onDelete(schema.posts).respond([]);
+
+      await db.select().from(schema.users);
+
+      expect(() => mock.verify()).toThrow(
+        '1 drizzle mock was not used as expected:\n  - never called: structural: delete on "posts"'
+      );
+    });
+
+    it("should report leftover respondOnce() responses", async () => {
+      mock
+        .onSelect(schema.users)
+        .respondOnce([{ id: 1 }])
+        .respondOnce([{ id: 2 }])
+        .respondOnce([{ id: 3 }]);
+
+      await db.select().from(schema.users);
+
+      expect(() => mock.verify()).toThrow('2 unused respondOnce() responses: structural: select on "users"');
+    });
+
+    it("should report once() mocks that were never consumed", () => {
+      mock.onSqlContaining("from \"users\"").once().respond([]);
+
+      expect(() => mock.verify()).toThrow('once() mock never consumed: contains: "from "users""');
+    });
+
+    it("should list every problem in the report", () => {
+      mock.onSelect(schema.users).respond([]);
+      mock.onUpdate(schema.users).set({ name: "Bob" }).respond([]);
+
+      expect(() => mock.verify()).toThrow(
+        "2 drizzle mocks were not used as expected:\n" +
+          '  - never called: structural: select on "users"\n' +
+          '  - never called: structural: update on "users" columns: [name]'
+      );
+    });
+
+    it("should not report mocks that were used then reset", async () => {
+      mock.onSelect(schema.users).respond([]);
+      mock.resetMocks();
+
+      expect(() => mock.verify()).not.toThrow();
+    });
+
+    it("should count calls that matched through the mock's conditions", async () => {
+      mock.onSelect(schema.users).containingSql(eq(schema.users.id, 1)).respond([]);
+      mock.onSelect(schema.users).respond([]);
+
+      await db.select().from(schema.users).where(eq(schema.users.id, 1));
+
+      expect(() => mock.verify()).toThrow('never called: structural: select on "users"');
+    });
+  });
+
+  describe("assertAllConsumed()", () => {
+    it("should ignore mocks that were never called", () => {
+      mock.onSelect(schema.users).respond([]);
+
+      expect(() => mock.assertAllConsumed()).not.toThrow();
+    });
+
+    it("should report leftover respondOnce() responses", () => {
+      mock.onSelect(schema.users).respondOnce([]);
+
+      expect(() => mock.assertAllConsumed()).toThrow(
+        '1 unused respondOnce() response: structural: select on "users"'
+      );
+    });
+
+    it("should report once() mocks that were never consumed", () => {
+      mock.onInsert(schema.users).once().respond([]);
+
+      expect(() => mock.assertAllConsumed()).toThrow('once() mock never consumed: structural: insert on "users"');
+    });
+
+    it("should pass once queues and once() mocks are used up", async () => {
+      mock.onSelect(schema.users).respondOnce([]).respondOnce([]);
+      mock.onInsert(schema.users).once().respond([]);
+
+      await db.select().from(schema.users);
+      await db.select().from(schema.users);
+      await db.insert(schema.users).values({ name: "Alice", email: "alice@test.com" });
+
+      expect(() => mock.assertAllConsumed()).not.toThrow();
+    });
+  });
+
+  describe("strict option", () => {
+    it("should leave a test passing when every mock was used", async () => {
+      const { db: strictDb, mock: strictMock } = createTestDb({ strict: true });
+      strictMock.onSelect(schema.users).respond([]);
+
+      await strictDb.select().from(schema.users);
+    });
+
+    // it.fails passes only when the test fails, which here comes from the strict check
+    it.fails("should fail the test when a mock is left unused", () => {
+      const { mock: strictMock } = createTestDb({ strict: true });
+      strictMock.onSelect(schema.users).respond([]);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+// ABOUTME: Tests for failing mocked transactions with failNextTransaction() and onTransaction()
+// ABOUTME: Covers begin and commit failures, retry loops, rollback of stateful writes and driver-shaped errors
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { dbErrors, mockDatabase } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+// The kind of wrapper the failures exist to test
+async function withRetry<T>(run: () => Promise<T>, attempts = 3): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (attempt === attempts || (code !== "40001" && code !== "40P01")) throw error;
+    }
+  }
+}
+
+describe("transaction failures", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb());
+    mock.onUpdate(schema.users).affects(1);
+  });
+
+  it("should fail the next commit with a serialization failure", async () => {
+    mock.failNextTransaction();
+
+    const error = await db.transaction((tx) => tx.update(schema.users).set({ name: "Alice" })).catch((e) => e);
+
+    expect(error).toMatchObject({
+      name: "error",
+      severity: "ERROR",
+      code: "40001",
+      message: "could not serialize access due to read/write dependencies among transactions",
+    });
+    expect(mock.transactionEvents.map((event) => event.type)).toEqual(["begin", "rollback"]);
+    expect(mock.transactionEvents[1]).toMatchObject({ cause: "error", error });
+  });
+
+  it("should let a retry loop succeed after the failures run out", async () => {
+    mock.failNextTransaction();
+    mock.failNextTransaction({ error: dbErrors.deadlock() });
+
+    const result = await withRetry(() =>
+      db.transaction(async (tx) => {
+        await tx.update(schema.users).set({ name: "Alice" });
+        return "done";
+      })
+    );
+
+    expect(result).toBe("done");
+    expect(mock.calls).toHaveLength(3);
+    expect(mock.transactionEvents.filter((event) => event.type === "rollback").map((event) => (event.error as any).code)).toEqual([
+      "40001",
+      "40P01",
+    ]);
+  });
+
+  it("should fail before the callback runs at begin", async () => {
+    mock.failNextTransaction({ at: "begin", error: new Error("connection lost") });
+    let ran = false;
+
+    await expect(
+      db.transaction(async () => {
+        ran = true;
+      })
+    ).rejects.toThrow("connection lost");
+
+    expect(ran).toBe(false);
+    expect(mock.calls).toHaveLength(0);
+    expect(mock.transactionEvents).toEqual([]);
+  });
+
+  it("should fail every matching transaction with onTransaction()", async () => {
+    mock.onTransaction({ isolationLevel: "serializable" }).throw(dbErrors.deadlock());
+
+    await expect(db.transaction(async () => {}, { isolationLevel: "serializable" })).rejects.toMatchObject({ code: "40P01" });
+    await expect(db.transaction(async () => {}, { isolationLevel: "serializable" })).rejects.toMatchObject({ code: "40P01" });
+    await expect(db.transaction(async () => "ok", { isolationLevel: "read committed" })).resolves.toBe("ok");
+  });
+
+  it("should support once() and atBegin() on onTransaction()", async () => {
+    mock.onTransaction().atBegin().once().throw();
+
+    await expect(db.transaction(async () => "first")).rejects.toMatchObject({ code: "40001" });
+    await expect(db.transaction(async () => "second")).resolves.toBe("second");
+  });
+
+  it("should use one-off failures before the newest persistent failure", async () => {
+    mock.onTransaction().throw(dbErrors.serializationFailure());
+    mock.onTransaction().throw(dbErrors.deadlock());
+    mock.failNextTransaction({ error: new Error("first") });
+    mock.onTransaction().once().throw(new Error("second"));
+
+    await expect(db.transaction(async () => {})).rejects.toThrow("first");
+    await expect(db.transaction(async () => {})).rejects.toThrow("second");
+    await expect(db.transaction(async () => {})).rejects.toMatchObject({ code: "40P01" });
+  });
+
+  it("should leave savepoints and rolled back transactions alone", async () => {
+    mock.failNextTransaction();
+
+    await db.transaction(async (tx) => {
+      tx.rollback();
+    });
+    await expect(db.transaction((tx) => tx.transaction(async () => "inner"))).rejects.toMatchObject({ code: "40001" });
+  });
+
+  it("should undo stateful writes when the commit fails", async () => {
+    const stateful = createTestDb({ stateful: true });
+    stateful.mock.failNextTransaction();
+
+    await expect(
+      stateful.db.transaction((tx) => tx.insert(schema.users).values({ name: "Bob", email: "bob@test.com" }))
+    ).rejects.toMatchObject({ code: "40001" });
+
+    expect(stateful.mock.rows(schema.users)).toEqual([]);
+  });
+
+  it("should clear failures with reset() and resetMocks()", async () => {
+    mock.failNextTransaction();
+    mock.resetMocks();
+    await expect(db.transaction(async () => "ok")).resolves.toBe("ok");
+
+    mock.onTransaction().throw();
+    mock.reset();
+    await expect(db.transaction(async () => "ok")).resolves.toBe("ok");
+  });
+
+  it("should throw dbErrors from query mocks in the driver's shape", async () => {
+    mock.onDelete(schema.posts).throw(dbErrors.deadlock());
+
+    await expect(db.delete(schema.posts)).rejects.toMatchObject({ name: "error", code: "40P01", routine: "DeadLockReport" });
+  });
+
+  describe("driver shapes", () => {
+    it("should build postgres.js errors", async () => {
+      const { drizzle } = await import("drizzle-orm/postgres-js");
+      const pgDb = drizzle.mock();
+      mockDatabase(pgDb).failNextTransaction();
+
+      await expect(pgDb.transaction(async () => {})).rejects.toMatchObject({
+        name: "PostgresError",
+        severity: "ERROR",
+        code: "40001",
+        hint: "The transaction might succeed if retried.",
+      });
+    });
+
+    it("should build mysql2 deadlocks", async () => {
+      const { drizzle } = await import("drizzle-orm/mysql2");
+      const mysqlDb = drizzle.mock({ mode: "default" });
+      mockDatabase(mysqlDb).failNextTransaction({ error: dbErrors.deadlock() });
+
+      await expect(mysqlDb.transaction(async () => {})).rejects.toMatchObject({
+        code: "ER_LOCK_DEADLOCK",
+        errno: 1213,
+        sqlState: "40001",
+        sqlMessage: "Deadlock found when trying to get lock; try restarting transaction",
+      });
+    });
+
+    it("should build better-sqlite3 busy errors", async () => {
+      const { drizzle } = await import("drizzle-orm/better-sqlite3");
+      const sqliteDb = drizzle.mock();
+      mockDatabase(sqliteDb).failNextTransaction();
+
+      await expect(sqliteDb.transaction(async () => {})).rejects.toMatchObject({
+        name: "SqliteError",
+        code: "SQLITE_BUSY",
+        message: "database is locked",
+      });
+    });
+
+    it("should build libsql errors around the engine's error", async () => {
+      const { drizzle } = await import("drizzle-orm/libsql");
+      const libsqlDb = drizzle.mock();
+      mockDatabase(libsqlDb).failNextTransaction();
+
+      const error = await libsqlDb.transaction(async () => {}).catch((e) => e);
+
+      expect(error).toMatchObject({
+        name: "LibsqlError",
+        code: "SQLITE_BUSY",
+        rawCode: 5,
+        message: "SQLITE_BUSY: database is locked",
+      });
+      expect(error.cause).toMatchObject({ code: "SQLITE_BUSY", message: "database is locked" });
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { eq } from "drizzle-orm";
+import { mockDatabase } from "../src/index.js";
 import { createTestDb } from "./helpers.js";
 import * as schema from "./schema.js";
 
@@ -63,4 +64,272 @@ describe("transactions", () => {
 
     expect(mock.calls).toHaveLength(2);
   });
+
+  it("should tag calls with the transaction they ran in", async () => {
+    mock.onSelect(schema.users).respond([]);
+    mock.onFindMany(schema.posts).respond([]);
+
+    await db.select().from(schema.users);
+    await db.transaction(async (tx) => {
+      await tx.select().from(schema.users);
+      await tx.query.posts.findMany();
+    });
+    await db.transaction(async (tx) => {
+      await tx.select().from(schema.users);
+    });
+
+    expect(mock.calls.map((call) => call.transactionId)).toEqual([undefined, 1, 1, 2]);
+  });
+
+  it("should keep recording the relational query mode inside transactions", async () => {
+    mock.onFindFirst(schema.users).respond({ id: 1, name: "Alice" });
+
+    const user = await db.transaction((tx) => tx.query.users.findFirst());
+
+    expect(user).toEqual({ id: 1, name: "Alice" });
+    expect(mock.calls[0]).toMatchObject({ operation: "findFirst", transactionId: 1 });
+  });
+
+  describe("nested transactions", () => {
+    beforeEach(() => {
+      mock.onSelect(schema.users).respond([]);
+      mock.onInsert(schema.posts).affects(1);
+      mock.onUpdate(schema.users).affects(1);
+    });
+
+    it("should give each savepoint its own id within the transaction", async () => {
+      await db.transaction(async (tx) => {
+        await tx.select().from(schema.users);
+        await tx.transaction(async (sp) => {
+          await sp.insert(schema.posts).values({ title: "Hi", body: "...", authorId: 1 });
+          await sp.transaction((inner) => inner.update(schema.users).set({ name: "Bob" }));
+        });
+        await tx.update(schema.users).set({ name: "Alice" });
+      });
+
+      expect(mock.calls.map((call) => [call.operation, call.transactionId, call.transactionPath])).toEqual([
+        ["select", 1, [1]],
+        ["insert", 2, [1, 2]],
+        ["update", 3, [1, 2, 3]],
+        ["update", 1, [1]],
+      ]);
+    });
+
+    it("should only end the savepoint on an inner rollback", async () => {
+      const result = await db.transaction(async (tx) => {
+        const inner = await tx.transaction(async (sp) => {
+          await sp.insert(schema.posts).values({ title: "Hi", body: "...", authorId: 1 });
+          sp.rollback();
+        });
+        await tx.update(schema.users).set({ name: "Alice" });
+        return inner ?? "continued";
+      });
+
+      expect(result).toBe("continued");
+      expect(mock.calls.map((call) => call.transactionId)).toEqual([2, 1]);
+    });
+
+    it("should let the outer transaction handle an error from a savepoint", async () => {
+      const result = await db.transaction(async (tx) => {
+        try {
+          await tx.transaction(async () => {
+            throw new Error("partial failure");
+          });
+        } catch (error) {
+          await tx.update(schema.users).set({ name: "Recovered" });
+          return (error as Error).message;
+        }
+      });
+
+      expect(result).toBe("partial failure");
+      expect(mock.calls[0]).toMatchObject({ operation: "update", transactionId: 1 });
+    });
+
+    it("should fail the transaction when a savepoint's error isn't handled", async () => {
+      await expect(
+        db.transaction((tx) =>
+          tx.transaction(async () => {
+            throw new Error("boom");
+          })
+        )
+      ).rejects.toThrow("boom");
+    });
+  });
+
+  describe("lifecycle events", () => {
+    beforeEach(() => {
+      mock.onUpdate(schema.users).affects(1);
+    });
+
+    it("should record begin and commit with the transaction's config", async () => {
+      await db.transaction(
+        async (tx) => {
+          await tx.update(schema.users).set({ name: "Alice" });
+        },
+        { isolationLevel: "serializable", accessMode: "read write" }
+      );
+
+      expect(mock.transactionEvents).toEqual([
+        {
+          type: "begin",
+          transactionId: 1,
+          transactionPath: [1],
+          timestamp: expect.any(Number),
+          config: { isolationLevel: "serializable", accessMode: "read write" },
+        },
+        { type: "commit", transactionId: 1, transactionPath: [1], timestamp: expect.any(Number) },
+      ]);
+    });
+
+    it("should tell tx.rollback() from a thrown error", async () => {
+      const failure = new Error("boom");
+      await db.transaction(async (tx) => {
+        tx.rollback();
+      });
+      await expect(
+        db.transaction(async () => {
+          throw failure;
+        })
+      ).rejects.toThrow("boom");
+
+      expect(mock.transactionEvents.filter((event) => event.type === "rollback")).toMatchObject([
+        { transactionId: 1, cause: "rollback" },
+        { transactionId: 2, cause: "error", error: failure },
+      ]);
+    });
+
+    it("should record savepoints, releases and rollbacks to savepoints", async () => {
+      await db.transaction(async (tx) => {
+        await tx.transaction(async (sp) => {
+          await sp.update(schema.users).set({ name: "Kept" });
+        });
+        await tx.transaction(async (sp) => {
+          sp.rollback();
+        });
+      });
+
+      expect(mock.transactionEvents.map((event) => [event.type, event.transactionPath])).toEqual([
+        ["begin", [1]],
+        ["savepoint", [1, 2]],
+        ["release", [1, 2]],
+        ["savepoint", [1, 3]],
+        ["rollbackToSavepoint", [1, 3]],
+        ["commit", [1]],
+      ]);
+    });
+
+    it("should record SQLite's transaction behavior", async () => {
+      const { drizzle } = await import("drizzle-orm/better-sqlite3");
+      const sqliteDb = drizzle.mock();
+      const sqliteMock = mockDatabase(sqliteDb);
+
+      await sqliteDb.transaction(async () => {}, { behavior: "immediate" });
+
+      expect(sqliteMock.transactionEvents[0]).toMatchObject({ type: "begin", config: { behavior: "immediate" } });
+    });
+
+    it("should clear events with reset() and resetCalls()", async () => {
+      await db.transaction(async () => {});
+      mock.resetCalls();
+      expect(mock.transactionEvents).toEqual([]);
+
+      await db.transaction(async () => {});
+      mock.reset();
+      expect(mock.transactionEvents).toEqual([]);
+    });
+  });
+
+  describe("transaction scope", () => {
+    it("should only match inTransaction() mocks on a tx", async () => {
+      mock.inTransaction().onUpdate(schema.users).affects(1);
+
+      await db.transaction((tx) => tx.update(schema.users).set({ name: "Alice" }));
+      await expect(db.update(schema.users).set({ name: "Alice" })).rejects.toThrow(
+        "transaction: only matches queries inside a transaction, but this one ran outside"
+      );
+    });
+
+    it("should count savepoints as inside the transaction", async () => {
+      mock.inTransaction().onSelect(schema.users).respond([{ id: 1 }]);
+
+      const result = await db.transaction((tx) => tx.transaction((sp) => sp.select().from(schema.users)));
+
+      expect(result).toEqual([{ id: 1 }]);
+    });
+
+    it("should pick the mock for the scope the query ran in", async () => {
+      mock.onSelect(schema.users).respond([{ id: 0 }]);
+      mock.outsideTransaction().onSelect(schema.users).respond([{ id: 1 }]);
+      mock.inTransaction().on(db.select().from(schema.users)).respond([{ id: 2 }]);
+
+      expect(await db.select().from(schema.users)).toEqual([{ id: 1 }]);
+      expect(await db.transaction((tx) => tx.select().from(schema.users))).toEqual([{ id: 2 }]);
+    });
+
+    it("should prefer a scoped mock over the same mock without a scope", async () => {
+      mock.inTransaction().onSqlContaining("from \"users\"").respond([{ id: 2 }]);
+      mock.onSqlContaining("from \"users\"").respond([{ id: 0 }]);
+
+      expect(await db.transaction((tx) => tx.select().from(schema.users))).toEqual([{ id: 2 }]);
+    });
+
+    it("should show the scope in mock listings", async () => {
+      mock.outsideTransaction().onDelete(schema.posts).respond([]);
+
+      await expect(db.transaction((tx) => tx.delete(schema.posts))).rejects.toThrow(
+        'structural: delete on "posts" (outside transaction)'
+      );
+    });
+  });
+
+  describe("stateful rollback", () => {
+    let stateful: ReturnType<typeof createTestDb>;
+
+    beforeEach(() => {
+      stateful = createTestDb({ stateful: true });
+      stateful.mock.seed(schema.users, [{ id: 1, name: "Alice", email: "alice@test.com" }]);
+    });
+
+    it("should keep a committed transaction's writes", async () => {
+      await stateful.db.transaction(async (tx) => {
+        await tx.update(schema.users).set({ name: "Alicia" }).where(eq(schema.users.id, 1));
+        await tx.insert(schema.users).values({ name: "Bob", email: "bob@test.com" });
+      });
+
+      expect(stateful.mock.rows(schema.users).map((user) => user.name)).toEqual(["Alicia", "Bob"]);
+    });
+
+    it("should undo writes when the transaction rolls back or throws", async () => {
+      await stateful.db.transaction(async (tx) => {
+        await tx.update(schema.users).set({ name: "Alicia" });
+        tx.rollback();
+      });
+      await expect(
+        stateful.db.transaction(async (tx) => {
+          await tx.delete(schema.users);
+          throw new Error("boom");
+        })
+      ).rejects.toThrow("boom");
+
+      expect(stateful.mock.rows(schema.users)).toMatchObject([{ id: 1, name: "Alice" }]);
+    });
+
+    it("should only undo a savepoint's writes on an inner rollback", async () => {
+      await stateful.db.transaction(async (tx) => {
+        await tx.insert(schema.users).values({ name: "Bob", email: "bob@test.com" });
+        await tx.transaction(async (sp) => {
+          await sp.insert(schema.users).values({ name: "Carol", email: "carol@test.com" });
+          sp.rollback();
+        });
+        await tx.insert(schema.users).values({ name: "Dave", email: "dave@test.com" });
+      });
+
+      // Like a database sequence, ids keep counting past the rolled back insert
+      expect(stateful.mock.rows(schema.users).map((user) => [user.id, user.name])).toEqual([
+        [1, "Alice"],
+        [2, "Bob"],
+        [4, "Dave"],
+      ]);
+    });
+  });
 });
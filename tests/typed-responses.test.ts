@@ -0,0 +1,97 @@
+// ABOUTME: Tests for response types inferred from tables and query builders
+// ABOUTME: Type assertions use expectTypeOf and are checked by tsconfig.test.json; .returning() matching is checked at runtime too
+
+import { describe, it, expect, expectTypeOf, beforeEach } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { mockDatabase, type MockBuilder } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+type User = typeof schema.users.$inferSelect;
+type Post = typeof schema.posts.$inferSelect;
+
+describe("typed responses", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb());
+  });
+
+  it("should type select mocks as partial table rows", () => {
+    type Data = Parameters<ReturnType<typeof mock.onSelect<typeof schema.users>>["respond"]>[0];
+
+    expectTypeOf(mock.onSelect(schema.users)).toEqualTypeOf<MockBuilder<Partial<User>[]>>();
+    expectTypeOf<{ id: string }[]>().not.toMatchTypeOf<Data>();
+    expectTypeOf<{ createdAt: string }[]>().not.toMatchTypeOf<Data>();
+    expectTypeOf<{ rowCount: number }>().not.toMatchTypeOf<Data>();
+  });
+
+  it("should take rows nested by table name on join-constrained select mocks", () => {
+    type Data = Parameters<ReturnType<ReturnType<typeof mock.onSelect<typeof schema.posts>>["leftJoin"]>["respond"]>[0];
+
+    expectTypeOf<{ posts: Post; users: User | null }[]>().toMatchTypeOf<Data>();
+  });
+
+  it("should type findFirst mocks as a single row or undefined", () => {
+    type Data = Parameters<ReturnType<typeof mock.onFindFirst<typeof schema.users>>["respond"]>[0];
+
+    expectTypeOf<undefined>().toMatchTypeOf<Data>();
+    expectTypeOf<{ id: number; posts: unknown[] }>().toMatchTypeOf<Data>();
+    expectTypeOf<{ id: string }>().not.toMatchTypeOf<Data>();
+  });
+
+  it("should infer the result of the builder a structural callback returns", () => {
+    type Select = Parameters<ReturnType<typeof mock.on<ReturnType<typeof selectIds>>>["respond"]>[0];
+    type Insert = Parameters<ReturnType<typeof mock.on<ReturnType<typeof insertUser>>>["respond"]>[0];
+    const selectIds = (d: typeof db) => d.select({ id: schema.users.id }).from(schema.users);
+    const insertUser = (d: typeof db) => d.insert(schema.users).values({ name: "Alice", email: "alice@test.com" });
+
+    expectTypeOf<Partial<{ id: number }>[]>().toMatchTypeOf<Select>();
+    expectTypeOf<{ rowCount: number }>().not.toMatchTypeOf<Select>();
+    expectTypeOf<{ id: string }[]>().not.toMatchTypeOf<Select>();
+    expectTypeOf<{ rowCount: number }>().toMatchTypeOf<Insert>();
+  });
+
+  it("should type responses as anything with rawDriverRows", () => {
+    const rawMock = mockDatabase(drizzle.mock({ schema }), { rawDriverRows: true });
+
+    expectTypeOf(rawMock.onSelect(schema.users).respond).parameter(0).toBeUnknown();
+  });
+
+  describe(".returning()", () => {
+    it("should type insert mocks with .returning() as table rows", async () => {
+      const builder = mock.onInsert(schema.users).returning();
+      expectTypeOf(builder.respond).parameter(0).toEqualTypeOf<Partial<User>[]>();
+
+      builder.respond([{ id: 1, name: "Alice" }]);
+
+      const result = await db
+        .insert(schema.users)
+        .values({ name: "Alice", email: "alice@test.com" })
+        .returning();
+      expect(result).toEqual([{ id: 1, name: "Alice" }]);
+    });
+
+    it("should only match writes that use .returning()", async () => {
+      mock.onUpdate(schema.users).returning().respond([{ id: 1 }]);
+
+      await expect(
+        db.update(schema.users).set({ name: "Bob" }).where(eq(schema.users.id, 1))
+      ).rejects.toThrow(/returning: expected \.returning\(\), but the query has none/);
+    });
+
+    it("should win over a plain write mock", async () => {
+      mock.onInsert(schema.users).returning().respond([{ id: 7 }]);
+      mock.onInsert(schema.users).affects(1);
+
+      const result = await db
+        .insert(schema.users)
+        .values({ name: "Alice", email: "alice@test.com" })
+        .returning({ id: schema.users.id });
+
+      expect(result).toEqual([{ id: 7 }]);
+    });
+  });
+});
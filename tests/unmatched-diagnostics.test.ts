@@ -0,0 +1,151 @@
+// ABOUTME: Tests for the "No mock registered" error's ranking of the closest registered mocks
+// ABOUTME: Verifies each mismatch reason and that unrelated mocks are summarized instead of listed
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { and, eq } from "drizzle-orm";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+describe("unmatched query diagnostics", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb());
+  });
+
+  async function unmatchedMessage(query: PromiseLike<unknown>): Promise<string> {
+    try {
+      await query;
+    } catch (error) {
+      return (error as Error).message;
+    }
+    throw new Error("Expected the query to be unmatched");
+  }
+
+  it("should only show the query when no mocks are registered", async () => {
+    const message = await unmatchedMessage(db.select().from(schema.users));
+
+    expect(message).toBe(
+      'No mock registered for query:\n  SQL: select "id", "name", "email", "created_at" from "users"\n  Params: []'
+    );
+  });
+
+  it("should point out a mock on the same table with a different operation", async () => {
+    mock.onInsert(schema.users).respond([]);
+
+    const message = await unmatchedMessage(db.select().from(schema.users));
+
+    expect(message).toContain(
+      'Registered mocks, closest first:\n  1. structural: insert on "users"\n     - operation: expected insert, got select'
+    );
+  });
+
+  it("should point out a mock on a different table", async () => {
+    mock.onSelect(schema.posts).respond([]);
+
+    const message = await unmatchedMessage(db.select().from(schema.users));
+
+    expect(message).toContain('- table: expected "posts", got "users"');
+  });
+
+  it("should list missing column keys", async () => {
+    mock.onUpdate(schema.users).set({ name: "x", email: "x" }).respond([]);
+
+    const message = await unmatchedMessage(db.update(schema.users).set({ name: "Bob" }));
+
+    expect(message).toContain("- missing columns: email");
+  });
+
+  it("should list values that differ", async () => {
+    mock.onUpdate(schema.users).set({ name: "Carol" }).withExactValues().respond([]);
+
+    const message = await unmatchedMessage(db.update(schema.users).set({ name: "Bob" }));
+
+    expect(message).toContain('- name: expected "Carol", got "Bob"');
+  });
+
+  it("should name the batch row whose values differ", async () => {
+    mock.onInsert(schema.users).values({ name: "Alice", email: "a@test.com" }).withExactValues().respond([]);
+
+    const message = await unmatchedMessage(
+      db.insert(schema.users).values([
+        { name: "Alice", email: "a@test.com" },
+        { name: "Bob", email: "b@test.com" },
+      ])
+    );
+
+    expect(message).toContain('- row 2 name: expected "Alice", got "Bob"');
+    expect(message).toContain('- row 2 email: expected "a@test.com", got "b@test.com"');
+  });
+
+  it("should report a containingSql() fragment that was not found", async () => {
+    mock.onSelect(schema.users).containingSql(eq(schema.users.email, "a@test.com")).respond([]);
+
+    const message = await unmatchedMessage(db.select().from(schema.users).where(eq(schema.users.id, 1)));
+
+    expect(message).toContain('- containingSql fragment not found: "email" = ?');
+  });
+
+  it("should report a containingSql() fragment whose param differs", async () => {
+    mock.onSelect(schema.users).containingSql(eq(schema.users.id, 1)).respond([]);
+
+    const message = await unmatchedMessage(db.select().from(schema.users).where(eq(schema.users.id, 2)));
+
+    expect(message).toContain('- containingSql fragment "id" = ?: param 1 expected 1, got 2');
+  });
+
+  it("should report the param position that differs", async () => {
+    mock
+      .on(db.select().from(schema.users).where(and(eq(schema.users.id, 1), eq(schema.users.name, "Alice"))))
+      .withExactParams()
+      .respond([]);
+
+    const message = await unmatchedMessage(
+      db.select().from(schema.users).where(and(eq(schema.users.id, 1), eq(schema.users.name, "Bob")))
+    );
+
+    expect(message).toContain('- param 2: expected "Alice", got "Bob"');
+    expect(message).not.toContain("param 1:");
+  });
+
+  it("should show a SQL diff with a caret at the first difference", async () => {
+    mock.on(db.select().from(schema.users).where(eq(schema.users.id, 1))).respond([]);
+
+    const message = await unmatchedMessage(db.select().from(schema.users).where(eq(schema.users.name, "Bob")));
+
+    expect(message).toContain(
+      "     - SQL differs:\n" +
+        '         expected: ...created_at" from "users" where "users"."id" = $1\n' +
+        '         actual:   ...created_at" from "users" where "users"."name" = $1\n' +
+        "                                                              ^"
+    );
+  });
+
+  it("should mention once() mocks that were already used", async () => {
+    mock.onSelect(schema.users).once().respond([]);
+    await db.select().from(schema.users);
+
+    const message = await unmatchedMessage(db.select().from(schema.users));
+
+    expect(message).toContain("- already used: .once() mocks only answer one query");
+  });
+
+  it("should rank the closest mocks first and summarize the rest", async () => {
+    mock.onSelect(schema.posts).respond([]);
+    mock.onSqlContaining("from comments").respond([]);
+    mock.onDelete(schema.users).respond([]);
+    mock.onSelect(schema.users).containingSql(eq(schema.users.id, 1)).respond([]);
+    mock.onInsert(schema.posts).respond([]);
+
+    const message = await unmatchedMessage(db.select().from(schema.users).where(eq(schema.users.id, 2)));
+    const listed = message.match(/^ {2}\d\. .*$/gm);
+
+    expect(listed).toEqual([
+      '  1. structural: select on "users"',
+      '  2. structural: delete on "users"',
+      '  3. structural: select on "posts"',
+    ]);
+    expect(message).toContain("  ... 2 more not shown");
+  });
+});
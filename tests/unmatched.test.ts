@@ -0,0 +1,185 @@
+// ABOUTME: Tests for configuring what happens when no mock matches a query
+// ABOUTME: Covers throwing, empty results per dialect, warnings, fallbacks and the global default
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzle as mysqlDrizzle } from "drizzle-orm/mysql2";
+import { drizzle as sqliteDrizzle } from "drizzle-orm/better-sqlite3";
+import { mysqlTable, serial, varchar } from "drizzle-orm/mysql-core";
+import { sqliteTable, integer, text } from "drizzle-orm/sqlite-core";
+import { mockDatabase, setDefaultUnmatchedBehavior } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+const myUsers = mysqlTable("users", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+});
+
+const sqliteUsers = sqliteTable("users", {
+  id: integer("id").primaryKey(),
+  name: text("name").notNull(),
+});
+
+describe("unmatched queries", () => {
+  afterEach(() => {
+    setDefaultUnmatchedBehavior();
+    vi.restoreAllMocks();
+  });
+
+  it("should throw by default", async () => {
+    const { db } = createTestDb();
+
+    await expect(db.select().from(schema.users)).rejects.toThrow(/No mock registered/);
+  });
+
+  describe("empty", () => {
+    let db: ReturnType<typeof createTestDb>["db"];
+
+    beforeEach(() => {
+      ({ db } = createTestDb({ unmatched: "empty" }));
+    });
+
+    it("should return no rows for selects", async () => {
+      expect(await db.select().from(schema.users)).toEqual([]);
+      expect(await db.query.users.findMany()).toEqual([]);
+    });
+
+    it("should return undefined for findFirst", async () => {
+      expect(await db.query.users.findFirst()).toBeUndefined();
+    });
+
+    it("should return no rows for writes with returning", async () => {
+      const result = await db
+        .insert(schema.users)
+        .values({ name: "Alice", email: "alice@test.com" })
+        .returning();
+
+      expect(result).toEqual([]);
+    });
+
+    it("should return an empty Postgres write result", async () => {
+      const result = await db.update(schema.users).set({ name: "Bob" }).where(eq(schema.users.id, 1));
+
+      expect(result).toMatchObject({ command: "UPDATE", rowCount: 0, rows: [] });
+    });
+
+    it("should return an empty MySQL write result", async () => {
+      const mysqlDb = mysqlDrizzle.mock({ mode: "default" });
+      mockDatabase(mysqlDb, { unmatched: "empty" });
+
+      const result = await mysqlDb.delete(myUsers).where(eq(myUsers.id, 1));
+
+      expect(result).toEqual([expect.objectContaining({ affectedRows: 0, insertId: 0 }), undefined]);
+    });
+
+    it("should return an empty SQLite write result", async () => {
+      const sqliteDb = sqliteDrizzle.mock();
+      mockDatabase(sqliteDb, { unmatched: "empty" });
+
+      const result = await sqliteDb.insert(sqliteUsers).values({ name: "Alice" });
+
+      expect(result).toEqual({ changes: 0, lastInsertRowid: 0 });
+    });
+
+    it("should return undefined for SQLite .get()", async () => {
+      const sqliteDb = sqliteDrizzle.mock();
+      mockDatabase(sqliteDb, { unmatched: "empty" });
+
+      expect(await sqliteDb.select().from(sqliteUsers).get()).toBeUndefined();
+      expect(await sqliteDb.insert(sqliteUsers).values({ name: "Alice" }).returning().get()).toBeUndefined();
+    });
+
+    it("should still prefer registered mocks", async () => {
+      const { db, mock } = createTestDb({ unmatched: "empty" });
+      mock.onSelect(schema.users).respond([{ id: 1 }]);
+
+      expect(await db.select().from(schema.users)).toEqual([{ id: 1 }]);
+    });
+
+    it("should record the call as unmatched", async () => {
+      const { db, mock } = createTestDb({ unmatched: "empty" });
+
+      await db.select().from(schema.users);
+
+      expect(mock.calls[0]).toMatchObject({ outcome: "unmatched", result: [] });
+    });
+  });
+
+  describe("warn", () => {
+    it("should log the unmatched query and return an empty result", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const { db } = createTestDb({ unmatched: "warn" });
+
+      const result = await db.select().from(schema.users).where(eq(schema.users.id, 1));
+
+      expect(result).toEqual([]);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('No mock registered for query:\n  SQL: select "id"');
+    });
+  });
+
+  describe("onUnmatched()", () => {
+    it("should answer with the fallback's return value", async () => {
+      const { db, mock } = createTestDb();
+      mock.onUnmatched((call) => (call.operation === "select" ? [{ id: 99 }] : { rowCount: 0 }));
+
+      expect(await db.select().from(schema.users)).toEqual([{ id: 99 }]);
+      expect(await db.delete(schema.users)).toEqual({ rowCount: 0 });
+    });
+
+    it("should pass the recorded call", async () => {
+      const { db, mock } = createTestDb();
+      const fallback = vi.fn(() => []);
+      mock.onUnmatched(fallback);
+
+      await db.select().from(schema.posts).where(eq(schema.posts.id, 3));
+
+      expect(fallback).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: "select", tableName: "posts", params: [3], outcome: "unmatched" })
+      );
+    });
+
+    it("should support async fallbacks", async () => {
+      const { db, mock } = createTestDb();
+      mock.onUnmatched(async () => [{ id: 1 }]);
+
+      expect(await db.select().from(schema.users)).toEqual([{ id: 1 }]);
+    });
+
+    it("should accept a named behavior", async () => {
+      const { db, mock } = createTestDb();
+      mock.onUnmatched("empty");
+
+      expect(await db.select().from(schema.users)).toEqual([]);
+
+      mock.onUnmatched("throw");
+
+      await expect(db.select().from(schema.users)).rejects.toThrow(/No mock registered/);
+    });
+  });
+
+  describe("global default", () => {
+    it("should apply to controllers without their own setting", async () => {
+      setDefaultUnmatchedBehavior("empty");
+      const { db } = createTestDb();
+
+      expect(await db.select().from(schema.users)).toEqual([]);
+    });
+
+    it("should be overridden per controller", async () => {
+      setDefaultUnmatchedBehavior("empty");
+      const { db } = createTestDb({ unmatched: "throw" });
+
+      await expect(db.select().from(schema.users)).rejects.toThrow(/No mock registered/);
+    });
+
+    it("should restore throwing when reset", async () => {
+      setDefaultUnmatchedBehavior("empty");
+      setDefaultUnmatchedBehavior();
+      const { db } = createTestDb();
+
+      await expect(db.select().from(schema.users)).rejects.toThrow(/No mock registered/);
+    });
+  });
+});
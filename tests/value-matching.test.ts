@@ -0,0 +1,180 @@
+// ABOUTME: Tests for value-aware structural matching via .withExactValues()
+// ABOUTME: Verifies literal values, anything() and Vitest asymmetric matchers on inserts and updates
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { eq } from "drizzle-orm";
+import { anything } from "../src/index.js";
+import { createTestDb } from "./helpers.js";
+import * as schema from "./schema.js";
+
+describe("value-aware matching", () => {
+  let db: ReturnType<typeof createTestDb>["db"];
+  let mock: ReturnType<typeof createTestDb>["mock"];
+
+  beforeEach(() => {
+    ({ db, mock } = createTestDb());
+  });
+
+  describe("inserts", () => {
+    it("should match an insert with the expected values", async () => {
+      mock
+        .onInsert(schema.users)
+        .values({ email: "a@b.com", name: anything() })
+        .withExactValues()
+        .respond({ rowCount: 1 });
+
+      const result = await db
+        .insert(schema.users)
+        .values({ name: "Alice", email: "a@b.com" });
+
+      expect(result).toEqual({ rowCount: 1 });
+    });
+
+    it("should not match an insert with a different value", async () => {
+      mock
+        .onInsert(schema.users)
+        .values({ email: "a@b.com", name: anything() })
+        .withExactValues()
+        .respond({ rowCount: 1 });
+
+      await expect(
+        db.insert(schema.users).values({ name: "Alice", email: "other@b.com" })
+      ).rejects.toThrow(/No mock registered/);
+    });
+
+    it("should still ignore values without .withExactValues()", async () => {
+      mock
+        .onInsert(schema.users)
+        .values({ email: "a@b.com" })
+        .respond({ rowCount: 1 });
+
+      const result = await db
+        .insert(schema.users)
+        .values({ name: "Alice", email: "other@b.com" });
+
+      expect(result).toEqual({ rowCount: 1 });
+    });
+
+    it("should support Vitest asymmetric matchers", async () => {
+      mock
+        .onInsert(schema.users)
+        .values({ name: expect.any(String), email: expect.stringContaining("@test.com") })
+        .withExactValues()
+        .respond({ rowCount: 1 });
+
+      await expect(
+        db.insert(schema.users).values({ name: "Alice", email: "alice@test.com" })
+      ).resolves.toEqual({ rowCount: 1 });
+
+      await expect(
+        db.insert(schema.users).values({ name: "Bob", email: "bob@example.com" })
+      ).rejects.toThrow(/No mock registered/);
+    });
+
+    it("should compare dates by value", async () => {
+      mock
+        .onInsert(schema.users)
+        .values({ createdAt: new Date("2024-01-01T00:00:00Z") })
+        .withExactValues()
+        .respond({ rowCount: 1 });
+
+      const result = await db.insert(schema.users).values({
+        name: "Alice",
+        email: "a@test.com",
+        createdAt: new Date("2024-01-01T00:00:00Z"),
+      });
+
+      expect(result).toEqual({ rowCount: 1 });
+    });
+
+    it("should require every inserted row to match", async () => {
+      mock
+        .onInsert(schema.users)
+        .values({ email: expect.stringContaining("@test.com") })
+        .withExactValues()
+        .respond({ rowCount: 2 });
+
+      await expect(
+        db.insert(schema.users).values([
+          { name: "Alice", email: "alice@test.com" },
+          { name: "Bob", email: "bob@example.com" },
+        ])
+      ).rejects.toThrow(/No mock registered/);
+    });
+
+    it("should be more specific than a column-key mock", async () => {
+      mock.onInsert(schema.users).values({ email: "x" }).respond("columns");
+      mock
+        .onInsert(schema.users)
+        .values({ email: "a@b.com" })
+        .withExactValues()
+        .respond("values");
+
+      mock.onInsert(schema.users).values({ email: "y" }).respond("columns, registered last");
+
+      expect(await db.insert(schema.users).values({ name: "A", email: "a@b.com" })).toBe("values");
+      expect(await db.insert(schema.users).values({ name: "A", email: "z@b.com" })).toBe(
+        "columns, registered last"
+      );
+    });
+  });
+
+  describe("updates", () => {
+    it("should match on set values", async () => {
+      mock
+        .onUpdate(schema.users)
+        .set({ name: "Alice" })
+        .withExactValues()
+        .respond({ rowCount: 1 });
+
+      await expect(
+        db.update(schema.users).set({ name: "Alice" }).where(eq(schema.users.id, 1))
+      ).resolves.toEqual({ rowCount: 1 });
+
+      await expect(
+        db.update(schema.users).set({ name: "Bob" }).where(eq(schema.users.id, 1))
+      ).rejects.toThrow(/No mock registered/);
+    });
+
+    it("should work with callback-based structural matchers", async () => {
+      mock
+        .on((d) => d.update(schema.users).set({ name: "Alice", email: anything() }))
+        .withExactValues()
+        .respond({ rowCount: 1 });
+
+      await expect(
+        db.update(schema.users).set({ name: "Alice", email: "new@test.com" })
+      ).resolves.toEqual({ rowCount: 1 });
+
+      await expect(
+        db.update(schema.users).set({ name: "Bob", email: "new@test.com" })
+      ).rejects.toThrow(/No mock registered/);
+    });
+  });
+
+  describe("errors and diagnostics", () => {
+    it("should reject .withExactValues() on non-write matchers", () => {
+      expect(() => mock.onSelect(schema.users).withExactValues()).toThrow(
+        /only be used with insert and update/
+      );
+    });
+
+    it("should require values before registering", () => {
+      expect(() => mock.onInsert(schema.users).withExactValues().respond([])).toThrow(
+        /requires values/
+      );
+    });
+
+    it("should list expected values in the unmatched-query error", async () => {
+      mock
+        .onInsert(schema.users)
+        .values({ email: "a@b.com", name: anything() })
+        .withExactValues()
+        .respond({ rowCount: 1 });
+
+      await expect(
+        db.insert(schema.users).values({ name: "Alice", email: "other@b.com" })
+      ).rejects.toThrow('values: { email: "a@b.com", name: anything() }');
+    });
+  });
+});
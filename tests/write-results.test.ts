@@ -0,0 +1,162 @@
+// ABOUTME: Tests for driver-shaped write results from .affects(), .insertId() and stateful mode
+// ABOUTME: Verifies each supported driver gets the result object its real client returns
+
+import { describe, it, expect } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzle as nodePgDrizzle } from "drizzle-orm/node-postgres";
+import { drizzle as postgresJsDrizzle } from "drizzle-orm/postgres-js";
+import { drizzle as mysqlDrizzle } from "drizzle-orm/mysql2";
+import { drizzle as betterSqliteDrizzle } from "drizzle-orm/better-sqlite3";
+import { drizzle as libsqlDrizzle } from "drizzle-orm/libsql";
+import { pgTable, serial as pgSerial, text as pgText } from "drizzle-orm/pg-core";
+import { mysqlTable, serial as mySerial, varchar } from "drizzle-orm/mysql-core";
+import { sqliteTable, integer, text } from "drizzle-orm/sqlite-core";
+import { mockDatabase } from "../src/index.js";
+
+const pgUsers = pgTable("users", {
+  id: pgSerial("id").primaryKey(),
+  name: pgText("name").notNull(),
+});
+
+const myUsers = mysqlTable("users", {
+  id: mySerial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+});
+
+const sqliteUsers = sqliteTable("users", {
+  id: integer("id").primaryKey(),
+  name: text("name").notNull(),
+});
+
+describe("driver write results", () => {
+  describe("node-postgres", () => {
+    it("should return a QueryResult", async () => {
+      const db = nodePgDrizzle.mock();
+      const mock = mockDatabase(db);
+      mock.onUpdate(pgUsers).affects(3);
+
+      const result = await db.update(pgUsers).set({ name: "Bob" });
+
+      expect(result).toEqual({ command: "UPDATE", rowCount: 3, oid: null, rows: [], fields: [] });
+    });
+
+    it("should reject .insertId()", () => {
+      const mock = mockDatabase(nodePgDrizzle.mock());
+
+      expect(() => mock.onInsert(pgUsers).insertId(1)).toThrow(
+        ".insertId() is not supported by node-postgres"
+      );
+    });
+  });
+
+  describe("postgres-js", () => {
+    it("should return a RowList with a count", async () => {
+      const db = postgresJsDrizzle.mock();
+      const mock = mockDatabase(db);
+      mock.onDelete(pgUsers).affects(2);
+
+      const result: any = await db.delete(pgUsers).where(eq(pgUsers.id, 1));
+
+      expect(Array.isArray(result)).toBe(true);
+      expect(result).toHaveLength(0);
+      expect(result.count).toBe(2);
+      expect(result.command).toBe("DELETE");
+    });
+  });
+
+  describe("mysql2", () => {
+    it("should return a ResultSetHeader tuple", async () => {
+      const db = mysqlDrizzle.mock({ mode: "default" });
+      const mock = mockDatabase(db);
+      mock.onUpdate(myUsers).affects(3);
+
+      const [header] = await db.update(myUsers).set({ name: "Bob" });
+
+      expect(header).toMatchObject({ affectedRows: 3, changedRows: 3, insertId: 0 });
+    });
+
+    it("should report the insert id with every inserted row affected", async () => {
+      const db = mysqlDrizzle.mock({ mode: "default" });
+      const mock = mockDatabase(db);
+      mock.onInsert(myUsers).insertId(42);
+
+      const [header] = await db.insert(myUsers).values([{ name: "Alice" }, { name: "Bob" }]);
+
+      expect(header).toMatchObject({ affectedRows: 2, insertId: 42 });
+    });
+
+    it("should report the first generated id in stateful mode", async () => {
+      const db = mysqlDrizzle.mock({ mode: "default" });
+      mockDatabase(db, { stateful: true });
+
+      await db.insert(myUsers).values({ name: "Alice" });
+      const [header] = await db.insert(myUsers).values([{ name: "Bob" }, { name: "Carol" }]);
+
+      expect(header).toMatchObject({ affectedRows: 2, insertId: 2 });
+    });
+  });
+
+  describe("better-sqlite3", () => {
+    it("should return a RunResult", async () => {
+      const db = betterSqliteDrizzle.mock();
+      const mock = mockDatabase(db);
+      mock.onInsert(sqliteUsers).insertId(7);
+
+      const result = await db.insert(sqliteUsers).values({ name: "Alice" });
+
+      expect(result).toEqual({ changes: 1, lastInsertRowid: 7 });
+    });
+
+    it("should report the last generated rowid in stateful mode", async () => {
+      const db = betterSqliteDrizzle.mock();
+      mockDatabase(db, { stateful: true });
+
+      const result = await db.insert(sqliteUsers).values([{ name: "Alice" }, { name: "Bob" }]);
+
+      expect(result).toEqual({ changes: 2, lastInsertRowid: 2 });
+    });
+  });
+
+  describe("libsql", () => {
+    it("should return a ResultSet", async () => {
+      const db = libsqlDrizzle.mock();
+      const mock = mockDatabase(db);
+      mock.onInsert(sqliteUsers).insertId(5);
+
+      const result = await db.insert(sqliteUsers).values({ name: "Alice" });
+
+      expect(result).toMatchObject({ columns: [], rows: [], rowsAffected: 1, lastInsertRowid: 5n });
+      expect(result.toJSON()).toMatchObject({ rowsAffected: 1, lastInsertRowid: "5" });
+    });
+  });
+
+  describe(".affects()", () => {
+    it("should be rejected on read mocks", () => {
+      const mock = mockDatabase(nodePgDrizzle.mock());
+
+      expect(() => mock.onSelect(pgUsers).affects(1)).toThrow(
+        ".affects() can only be used with insert, update and delete mocks"
+      );
+    });
+
+    it("should work with exact SQL mocks", async () => {
+      const db = nodePgDrizzle.mock();
+      const mock = mockDatabase(db);
+      mock.on(db.delete(pgUsers).where(eq(pgUsers.id, 1))).affects(1);
+
+      const result = await db.delete(pgUsers).where(eq(pgUsers.id, 1));
+
+      expect(result).toMatchObject({ command: "DELETE", rowCount: 1 });
+    });
+
+    it("should explain that returning queries need rows", async () => {
+      const db = nodePgDrizzle.mock();
+      const mock = mockDatabase(db);
+      mock.onUpdate(pgUsers).affects(1);
+
+      await expect(db.update(pgUsers).set({ name: "Bob" }).returning()).rejects.toThrow(
+        "this query uses .returning()"
+      );
+    });
+  });
+});